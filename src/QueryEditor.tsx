@@ -3,6 +3,7 @@ import { Box, Drawer } from '@mui/material'
 import ConnectionManager from './schema/ConnectionManager'
 import Queries from './schema/Queries'
 import SchemaProvider from './sql/SchemaProvider'
+import JobsProvider from './sql/JobsProvider'
 import QueryCell from './controls/QueryCell'
 import CatalogViewer from './controls/catalog_viewer/CatalogViewer'
 import ConnectionDialog from './controls/ConnectionDialog'
@@ -21,6 +22,7 @@ export default function QueryEditor({ height }: IQueryEditor) {
     const connectionManager = useMemo(() => new ConnectionManager(), [])
     const queries = useMemo(() => new Queries(), [])
     const schemaProvider = useMemo(() => new SchemaProvider(), [])
+    const jobsProvider = useMemo(() => new JobsProvider(), [])
 
     // Listen for connection changes to re-render
     useEffect(() => {
@@ -29,6 +31,13 @@ export default function QueryEditor({ height }: IQueryEditor) {
         return () => connectionManager.removeChangeListener(handler)
     }, [connectionManager])
 
+    // Close sessions when the page goes away, if the user asked for it
+    useEffect(() => {
+        const handler = () => connectionManager.handlePageHide()
+        window.addEventListener('pagehide', handler)
+        return () => window.removeEventListener('pagehide', handler)
+    }, [connectionManager])
+
     const handleToggleDrawer = () => {
         setDrawerOpen((prev) => !prev)
     }
@@ -85,6 +94,8 @@ export default function QueryEditor({ height }: IQueryEditor) {
                 <QueryCell
                     queries={queries}
                     connectionManager={connectionManager}
+                    schemaProvider={schemaProvider}
+                    jobsProvider={jobsProvider}
                     height={height}
                     onToggleDrawer={handleToggleDrawer}
                     onOpenConnectionDialog={handleOpenConnectionDialog}
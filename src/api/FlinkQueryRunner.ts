@@ -1,53 +1,179 @@
-import FlinkSqlGatewayClient from '../api/FlinkSqlGatewayClient'
-import { ColumnInfo, FetchResultsResponseBody, RowData } from '../api/FlinkSqlGatewayTypes'
+import FlinkSqlGatewayClient, { FlinkSqlGatewayError } from '../api/FlinkSqlGatewayClient'
+import { ColumnInfo, FetchResultsResponseBody, OperationStatus, RowData } from '../api/FlinkSqlGatewayTypes'
+import MaterializedResult, { ChangelogStats } from '../api/MaterializedResult'
+import { RetryAttempt, sleep } from '../api/RetryPolicy'
+import { toSubmittedStatement } from '../sql/splitStatements'
 import { getErrorMessage, isSessionExpired, parseNextToken } from '../utils/Errors'
 
-export type QueryState = 'IDLE' | 'SUBMITTING' | 'RUNNING' | 'FINISHED' | 'FAILED' | 'CANCELLING' | 'CANCELLED'
+export type QueryState =
+    | 'IDLE'
+    | 'SUBMITTING'
+    | 'RUNNING'
+    | 'PAUSED'
+    | 'FINISHED'
+    | 'FAILED'
+    | 'CANCELLING'
+    | 'CANCELLED'
+
+/**
+ * What happens when a result reaches `maxRows`:
+ *   - stop:    trim to the limit and cancel the query
+ *   - rolling: keep the most recent `maxRows` rows and keep fetching
+ *   - pause:   stop fetching until resume() is called; the job stays alive
+ */
+export type RowLimitPolicy = 'stop' | 'rolling' | 'pause'
+
+export interface RowLimit {
+    policy: RowLimitPolicy
+    maxRows: number
+}
+
+export const DEFAULT_ROW_LIMIT: RowLimit = { policy: 'stop', maxRows: 10_000 }
+
+/**
+ * How the Flink job behind a statement is stopped:
+ *   - stop:      STOP JOB, no savepoint
+ *   - savepoint: STOP JOB ... WITH SAVEPOINT
+ *   - drain:     STOP JOB ... WITH SAVEPOINT WITH DRAIN (emits max watermark first, flushing event-time windows)
+ */
+export type StopJobMode = 'stop' | 'savepoint' | 'drain'
+
+/** One stretch of time the gateway reported an operation in a given status. */
+export interface OperationStatusTiming {
+    status: OperationStatus
+    enteredAt: number
+    /** null while the operation is still in this status */
+    leftAt: number | null
+}
+
+/** Where a running operation is in its result stream, so it can be picked up again after a page reload. */
+export interface OperationCheckpoint {
+    sessionHandle: string
+    operationHandle: string
+    statement: string
+    jobId: string | null
+    /** Next result token to fetch */
+    token: number
+    startedAt: number
+}
+
+/** How one statement of a script went, kept so every statement can be reviewed after the run. */
+export interface StatementResult {
+    index: number
+    statement: string
+    state: QueryState
+    startedAt: number
+    /** null while the statement is running */
+    finishedAt: number | null
+    jobId: string | null
+    error: string | null
+    isQueryResult: boolean
+    columns: ColumnInfo[]
+    rows: RowData[]
+}
 
 export interface QueryRunnerCallbacks {
     onStateChange: (state: QueryState) => void
     onColumnsReceived: (columns: ColumnInfo[]) => void
     onRowsReceived: (rows: RowData[], totalRowCount: number) => void
+    onChangelogStats?: (stats: ChangelogStats) => void
+    onChangelogReceived?: (changelog: RowData[], droppedCount: number) => void
     onError: (message: string) => void
     onWarning?: (message: string) => void
     onJobId: (jobId: string) => void
+    /** A statement submitted by this runner started a Flink job. */
+    onJobStarted?: (jobId: string, statement: string) => void
     onIsQueryResult: (isQuery: boolean) => void
-    onSessionExpired?: () => Promise<void> | void
+    /** The session expired while running statement `statementIndex`; earlier statements completed. */
+    onSessionExpired?: (statementIndex: number) => Promise<void> | void
     onStatementProgress?: (current: number, total: number) => void
+    /** A statement of a multi-statement run started (state RUNNING) or ended. */
+    onStatementResult?: (result: StatementResult) => void
+    /** A statement ran to completion (used to journal session-state changes). */
+    onStatementFinished?: (statement: string) => void
+    /** A result fetch is being retried after a transient failure; null once it got through or gave up. */
+    onRetry?: (retry: RetryAttempt | null) => void
+    /** Gateway-side status history of the current operation, oldest first. */
+    onOperationStatus?: (history: OperationStatusTiming[]) => void
+    /** A stop with savepoint completed; the path can be used to restore the job. */
+    onSavepoint?: (path: string) => void
+    /** The running operation advanced in its result stream; null once it is no longer running. */
+    onCheckpoint?: (checkpoint: OperationCheckpoint | null) => void
 }
 
-const MAX_ROWS = 10_000
 const POLL_BACKOFF_STEP_MS = 100
 const POLL_BACKOFF_MAX_MS = 2_000
+const STATUS_POLL_MIN_MS = 1_000
+const STATUS_POLL_MAX_MS = 5_000
+// How long a stop with savepoint is waited for before the runner gives up on the path
+const SAVEPOINT_TIMEOUT_MS = 10 * 60_000
+const TERMINAL_OPERATION_STATUSES: OperationStatus[] = ['FINISHED', 'CANCELED', 'TIMEOUT', 'ERROR', 'CLOSED']
+
+/** Without a savepoint, Flink's STOP JOB cancels the job. */
+export function stopJobStatement(jobId: string, mode: StopJobMode): string {
+    const statement = `STOP JOB '${jobId}'`
+    if (mode === 'savepoint') return `${statement} WITH SAVEPOINT`
+    if (mode === 'drain') return `${statement} WITH SAVEPOINT WITH DRAIN`
+    return statement
+}
+
+export function isTerminalOperationStatus(status: OperationStatus): boolean {
+    return TERMINAL_OPERATION_STATUSES.includes(status)
+}
 
 /**
  * Orchestrates the full lifecycle of a single Flink SQL statement execution:
  *   1. Submit statement via executeStatement
  *   2. Immediately start fetching result pages (handles both batch and streaming)
- *   3. Accumulate rows, streaming them to the UI as they arrive
- *   4. Stop on EOS (batch) or when cancelled / MAX_ROWS reached (streaming)
+ *   3. Apply the changelog to a materialized result, streaming it to the UI as pages arrive
+ *   4. Stop on EOS (batch), when cancelled, or as the row limit policy dictates (streaming)
+ *
+ * Alongside fetching, the operation status is polled so the UI can show what the
+ * gateway thinks the operation is doing (e.g. PENDING while waiting for the cluster).
  */
 class FlinkQueryRunner {
     private client: FlinkSqlGatewayClient
     private sessionHandle: string
     private callbacks: QueryRunnerCallbacks
+    private rowLimit: RowLimit
 
     private operationHandle: string | null = null
+    private statement = ''
+    private startedAt = 0
+    private checkpointed = false
     private jobId: string | null = null
     private state: QueryState = 'IDLE'
-    private allRows: RowData[] = []
+    private result: MaterializedResult
     private columns: ColumnInfo[] = []
     private cancelRequested = false
     private submitAbortController: AbortController | null = null
     private fetchAbortController: AbortController | null = null
     private isQueryResultReported = false
+    private isQueryResult = false
     private multiStatementIndex = 0
     private multiStatementTotal = 0
-
-    constructor(client: FlinkSqlGatewayClient, sessionHandle: string, callbacks: QueryRunnerCallbacks) {
+    private continueOnError = false
+    private statementError: string | null = null
+    private rowLimitReported = false
+    private pauseAt: number
+    private resumeFetching: (() => void) | null = null
+    private retrying = false
+    private statusHistory: OperationStatusTiming[] = []
+    private statusAbortController: AbortController | null = null
+    private savepointAbortController: AbortController | null = null
+
+    constructor(
+        client: FlinkSqlGatewayClient,
+        sessionHandle: string,
+        callbacks: QueryRunnerCallbacks,
+        rowLimit: RowLimit = DEFAULT_ROW_LIMIT
+    ) {
         this.client = client
         this.sessionHandle = sessionHandle
         this.callbacks = callbacks
+        this.rowLimit = rowLimit
+        this.result = new MaterializedResult(rowLimit.maxRows)
+        this.pauseAt = rowLimit.maxRows
     }
 
     getState(): QueryState {
@@ -55,10 +181,29 @@ class FlinkQueryRunner {
     }
 
     isRunning(): boolean {
-        return this.state === 'SUBMITTING' || this.state === 'RUNNING' || this.state === 'CANCELLING'
+        return (
+            this.state === 'SUBMITTING' ||
+            this.state === 'RUNNING' ||
+            this.state === 'PAUSED' ||
+            this.state === 'CANCELLING'
+        )
+    }
+
+    /** Continue fetching after the 'pause' row limit policy paused the query, for another `maxRows` rows. */
+    resume(): void {
+        if (this.state !== 'PAUSED' || !this.resumeFetching) return
+        this.pauseAt = this.result.size() + this.rowLimit.maxRows
+        const resume = this.resumeFetching
+        this.resumeFetching = null
+        this.setState('RUNNING')
+        resume()
     }
 
-    async execute(statement: string, executionConfig?: Record<string, string>): Promise<void> {
+    async execute(
+        statement: string,
+        executionConfig?: Record<string, string>,
+        executionTimeout?: number
+    ): Promise<void> {
         if (this.isRunning()) {
             return
         }
@@ -70,11 +215,14 @@ class FlinkQueryRunner {
             this.submitAbortController = new AbortController()
             const response = await this.client.executeStatement(
                 this.sessionHandle,
-                { statement, executionConfig },
+                { statement: toSubmittedStatement(statement), executionConfig, executionTimeout },
                 this.submitAbortController.signal
             )
             this.submitAbortController = null
             this.operationHandle = response.operationHandle
+            this.statement = statement
+            this.startedAt = Date.now()
+            this.startStatusPolling(response.operationHandle)
 
             if (this.cancelRequested) {
                 await this.performCancel()
@@ -83,6 +231,9 @@ class FlinkQueryRunner {
 
             this.setState('RUNNING')
             await this.fetchResults()
+            if (this.state === 'FINISHED') {
+                this.callbacks.onStatementFinished?.(statement)
+            }
         } catch (error) {
             if (this.cancelRequested) {
                 this.setState('CANCELLED')
@@ -92,18 +243,29 @@ class FlinkQueryRunner {
         }
     }
 
-    async executeAll(statements: string[], executionConfig?: Record<string, string>): Promise<void> {
+    /**
+     * Run statements one after another. A failure stops the run unless `continueOnError`
+     * is set, in which case it is recorded in the statement's result and the next statement runs.
+     */
+    async executeAll(
+        statements: string[],
+        executionConfig?: Record<string, string>,
+        executionTimeout?: number,
+        continueOnError = false
+    ): Promise<void> {
         if (this.isRunning() || statements.length === 0) {
             return
         }
 
         // Single statement — use the simple path
         if (statements.length === 1) {
-            return this.execute(statements[0], executionConfig)
+            return this.execute(statements[0], executionConfig, executionTimeout)
         }
 
         this.reset()
         this.multiStatementTotal = statements.length
+        this.continueOnError = continueOnError
+        let failures = 0
 
         for (let i = 0; i < statements.length; i++) {
             if (this.cancelRequested) {
@@ -117,29 +279,42 @@ class FlinkQueryRunner {
             // Reset per-statement state but keep multi-statement tracking
             this.operationHandle = null
             this.jobId = null
-            this.allRows = []
+            this.result.clear()
             this.columns = []
             this.submitAbortController = null
             this.fetchAbortController = null
             this.isQueryResultReported = false
+            this.isQueryResult = false
+            this.statementError = null
+            this.rowLimitReported = false
+            this.pauseAt = this.rowLimit.maxRows
+            this.stopStatusPolling()
+            this.statusHistory = []
 
             // Clear previous results for intermediate statements
+            this.callbacks.onOperationStatus?.([])
             this.callbacks.onColumnsReceived([])
-            this.callbacks.onRowsReceived([], 0)
+            this.reportRows()
             this.callbacks.onJobId('')
             this.callbacks.onIsQueryResult(true)
 
             this.setState('SUBMITTING')
+            const statementStartedAt = Date.now()
+            this.reportStatementResult(i, statements[i], statementStartedAt)
 
             try {
                 this.submitAbortController = new AbortController()
                 const response = await this.client.executeStatement(
                     this.sessionHandle,
-                    { statement: statements[i], executionConfig },
+                    // A statement set goes in as one statement and comes back with one job id
+                    { statement: toSubmittedStatement(statements[i]), executionConfig, executionTimeout },
                     this.submitAbortController.signal
                 )
                 this.submitAbortController = null
                 this.operationHandle = response.operationHandle
+                this.statement = statements[i]
+                this.startedAt = Date.now()
+                this.startStatusPolling(response.operationHandle)
 
                 if (this.cancelRequested) {
                     await this.performCancel()
@@ -148,39 +323,115 @@ class FlinkQueryRunner {
 
                 this.setState('RUNNING')
                 await this.fetchResults()
+                if (this.state === 'IDLE') {
+                    // Handed over to session recovery
+                    return
+                }
+                this.reportStatementResult(i, statements[i], statementStartedAt)
 
-                // If the statement failed or was cancelled, stop the sequence
-                if (this.state === 'FAILED' || this.state === 'CANCELLED') {
+                // A cancel always stops the sequence; a failure only when not continuing past errors
+                if (this.state === 'CANCELLED' || (this.state === 'FAILED' && !continueOnError)) {
                     return
                 }
+                if (this.state === 'FAILED') {
+                    failures++
+                    continue
+                }
+                this.callbacks.onStatementFinished?.(statements[i])
             } catch (error) {
                 if (this.cancelRequested) {
                     this.setState('CANCELLED')
+                    this.reportStatementResult(i, statements[i], statementStartedAt)
                     return
                 }
                 // Annotate the error with which statement failed
                 if (isSessionExpired(error) && this.callbacks.onSessionExpired) {
                     this.state = 'IDLE'
-                    this.callbacks.onSessionExpired()
+                    this.callbacks.onSessionExpired(i)
                     return
                 }
-                const message = getErrorMessage(error)
-                this.callbacks.onError(`Statement ${i + 1}/${statements.length}: ${message}`)
+                const message = getErrorMessage(error) + this.submissionHint(error)
+                this.statementError = message
                 console.error('FlinkQueryRunner error:', message)
+                if (!continueOnError) {
+                    this.callbacks.onError(`Statement ${i + 1}/${statements.length}: ${message}`)
+                }
                 this.setState('FAILED')
-                return
+                this.reportStatementResult(i, statements[i], statementStartedAt)
+                if (!continueOnError) {
+                    return
+                }
+                failures++
             }
         }
 
         // All statements completed — final state should already be FINISHED from the last fetchResults
         this.multiStatementIndex = statements.length - 1
         this.callbacks.onStatementProgress?.(statements.length, statements.length)
+        if (failures > 0) {
+            this.callbacks.onError(`${failures} of ${statements.length} statements failed — see the statement log`)
+            this.setState('FAILED')
+        }
+    }
+
+    /**
+     * Pick up an operation started by an earlier runner (e.g. before a page reload) and
+     * keep fetching from its last token. Rows fetched before the checkpoint aren't replayed.
+     */
+    async attach(checkpoint: OperationCheckpoint): Promise<void> {
+        if (this.isRunning()) {
+            return
+        }
+
+        this.reset()
+        this.operationHandle = checkpoint.operationHandle
+        this.statement = checkpoint.statement
+        this.startedAt = checkpoint.startedAt
+        if (checkpoint.jobId) {
+            this.jobId = checkpoint.jobId
+            this.callbacks.onJobId(checkpoint.jobId)
+        }
+        this.startStatusPolling(checkpoint.operationHandle)
+        this.setState('RUNNING')
+
+        try {
+            await this.fetchResults(checkpoint.token)
+            if (this.state === 'FINISHED') {
+                this.callbacks.onStatementFinished?.(checkpoint.statement)
+            }
+        } catch (error) {
+            if (this.cancelRequested) {
+                this.setState('CANCELLED')
+                return
+            }
+            await this.handleError(error)
+        }
     }
 
-    async cancel(): Promise<void> {
+    /** Cancel an operation this runner isn't fetching from (e.g. one left behind by a reload) and stop its job. */
+    async cancelDetached(checkpoint: OperationCheckpoint, mode: StopJobMode = 'stop'): Promise<void> {
+        if (this.isRunning()) {
+            return
+        }
+
+        this.reset()
+        this.operationHandle = checkpoint.operationHandle
+        this.statement = checkpoint.statement
+        this.startedAt = checkpoint.startedAt
+        this.jobId = checkpoint.jobId
+        this.checkpointed = true
+        await this.performCancel(mode)
+    }
+
+    async cancel(mode: StopJobMode = 'stop'): Promise<void> {
         if (!this.isRunning()) {
             return
         }
+        // Already cancelling: a second cancel stops waiting for a savepoint
+        if (this.state === 'CANCELLING') {
+            this.savepointAbortController?.abort()
+            return
+        }
 
         this.cancelRequested = true
 
@@ -191,16 +442,39 @@ class FlinkQueryRunner {
         if (this.fetchAbortController) {
             this.fetchAbortController.abort()
         }
+        this.stopStatusPolling()
+        // Wake a paused fetch loop so it can exit
+        if (this.resumeFetching) {
+            this.resumeFetching()
+            this.resumeFetching = null
+        }
 
         if (this.operationHandle) {
-            await this.performCancel()
+            await this.performCancel(mode)
         }
     }
 
-    private async performCancel(): Promise<void> {
+    /**
+     * Stop the job of a statement that has already returned, e.g. an INSERT submitted
+     * without table.dml-sync, whose job keeps running after the operation finished.
+     */
+    async stopJob(mode: StopJobMode = 'stop'): Promise<void> {
+        if (this.isRunning() || !this.jobId) {
+            return
+        }
+        this.setState('CANCELLING')
+        await this.stopRunningJob(mode)
+        this.setState('CANCELLED')
+    }
+
+    private async performCancel(mode: StopJobMode = 'stop'): Promise<void> {
         if (!this.operationHandle) return
 
         this.setState('CANCELLING')
+        // Cancelling the operation can take the job down with it, so take the savepoint first
+        if (mode !== 'stop') {
+            await this.stopRunningJob(mode)
+        }
         try {
             await this.client.cancelOperation(this.sessionHandle, this.operationHandle)
         } catch {
@@ -208,14 +482,8 @@ class FlinkQueryRunner {
         }
 
         // Stop the underlying Flink job so it doesn't keep consuming resources
-        if (this.jobId) {
-            try {
-                await this.client.executeStatement(this.sessionHandle, {
-                    statement: `STOP JOB '${this.jobId}'`,
-                })
-            } catch {
-                // Job may have already finished or been cancelled
-            }
+        if (mode === 'stop') {
+            await this.stopRunningJob(mode)
         }
 
         try {
@@ -226,13 +494,91 @@ class FlinkQueryRunner {
         this.setState('CANCELLED')
     }
 
-    private async fetchResults(): Promise<void> {
+    private async stopRunningJob(mode: StopJobMode): Promise<void> {
+        if (!this.jobId) {
+            if (mode !== 'stop') {
+                this.callbacks.onWarning?.('No job was started yet, so no savepoint was taken')
+            }
+            return
+        }
+
+        try {
+            const response = await this.client.executeStatement(this.sessionHandle, {
+                statement: stopJobStatement(this.jobId, mode),
+            })
+            if (mode === 'stop') return
+            const path = await this.fetchSavepointPath(response.operationHandle)
+            if (path) {
+                this.callbacks.onSavepoint?.(path)
+            }
+        } catch (error) {
+            // A plain stop may race with the job finishing; a requested savepoint failing is worth knowing
+            if (mode !== 'stop') {
+                this.callbacks.onWarning?.(`Stop with savepoint failed: ${getErrorMessage(error)}`)
+            }
+        }
+    }
+
+    /**
+     * STOP JOB ... WITH SAVEPOINT returns a single row holding the savepoint path once the savepoint completes.
+     * Waiting gives up after SAVEPOINT_TIMEOUT_MS, or when cancel() is called again.
+     */
+    private async fetchSavepointPath(operationHandle: string): Promise<string | null> {
+        let token = 0
+        let backoffMs = 0
+        const deadline = Date.now() + SAVEPOINT_TIMEOUT_MS
+        this.savepointAbortController = new AbortController()
+        const signal = this.savepointAbortController.signal
+        try {
+            while (true) {
+                if (signal.aborted || Date.now() >= deadline) {
+                    this.callbacks.onWarning?.(
+                        signal.aborted
+                            ? 'Stopped waiting for the savepoint; the job may still complete it — check the JobManager'
+                            : `No savepoint after ${SAVEPOINT_TIMEOUT_MS / 60_000} minutes; the job may still complete it — check the JobManager`
+                    )
+                    return null
+                }
+                let result: FetchResultsResponseBody
+                try {
+                    result = await this.client.fetchResults(this.sessionHandle, operationHandle, token, 'JSON', signal)
+                } catch (error) {
+                    if (signal.aborted) continue
+                    throw error
+                }
+                const row = result.results?.data?.[0]
+                if (row && row.fields.length > 0) {
+                    return String(row.fields[0])
+                }
+                if (result.resultType === 'EOS') {
+                    return null
+                }
+                if (result.resultType === 'NOT_READY' || !result.results) {
+                    backoffMs = Math.min(backoffMs + POLL_BACKOFF_STEP_MS, POLL_BACKOFF_MAX_MS)
+                    await sleep(backoffMs, signal)
+                    continue
+                }
+                const nextToken = parseNextToken(result.nextResultUri, token)
+                if (nextToken === token) return null
+                token = nextToken
+            }
+        } finally {
+            this.savepointAbortController = null
+            try {
+                await this.client.closeOperation(this.sessionHandle, operationHandle)
+            } catch {
+                // Already closed
+            }
+        }
+    }
+
+    private async fetchResults(token = 0): Promise<void> {
         if (!this.operationHandle) return
 
         this.fetchAbortController = new AbortController()
         const signal = this.fetchAbortController.signal
-        let token = 0
         let backoffMs = 0
+        this.checkpoint(token)
 
         while (true) {
             if (this.cancelRequested) {
@@ -242,8 +588,17 @@ class FlinkQueryRunner {
 
             let result: FetchResultsResponseBody
             try {
-                result = await this.client.fetchResults(this.sessionHandle, this.operationHandle, token, 'JSON', signal)
+                result = await this.client.fetchResults(
+                    this.sessionHandle,
+                    this.operationHandle,
+                    token,
+                    'JSON',
+                    signal,
+                    (retry) => this.reportRetry(retry)
+                )
+                this.reportRetry(null)
             } catch (error) {
+                this.reportRetry(null)
                 // If we were cancelled, the abort is expected — don't treat it as an error
                 if (this.cancelRequested) {
                     return
@@ -251,10 +606,10 @@ class FlinkQueryRunner {
                 // Session expiry always triggers recovery, even if we have partial rows
                 if (isSessionExpired(error) && this.callbacks.onSessionExpired) {
                     this.state = 'IDLE'
-                    await this.callbacks.onSessionExpired()
+                    await this.callbacks.onSessionExpired(this.multiStatementIndex)
                     return
                 }
-                if (this.allRows.length > 0) {
+                if (this.result.size() > 0) {
                     this.handleErrorMessage(error)
                     this.setState('FINISHED')
                 } else {
@@ -266,7 +621,7 @@ class FlinkQueryRunner {
             // Guard against missing results (shouldn't happen after error handling in client, but be safe)
             if (!result.results) {
                 backoffMs = Math.min(backoffMs + POLL_BACKOFF_STEP_MS, POLL_BACKOFF_MAX_MS)
-                await this.sleep(backoffMs)
+                await sleep(backoffMs, signal)
                 continue
             }
 
@@ -276,44 +631,52 @@ class FlinkQueryRunner {
                 this.callbacks.onColumnsReceived(this.columns)
             }
 
-            if (result.jobID) {
+            if (result.jobID && result.jobID !== this.jobId) {
                 this.jobId = result.jobID
                 this.callbacks.onJobId(result.jobID)
+                this.callbacks.onJobStarted?.(result.jobID, this.statement)
+                this.checkpoint(token)
             }
 
             if (!this.isQueryResultReported && result.resultType === 'PAYLOAD') {
                 this.isQueryResultReported = true
+                this.isQueryResult = result.isQueryResult
                 this.callbacks.onIsQueryResult(result.isQueryResult)
             }
 
             if (result.resultType === 'NOT_READY') {
                 backoffMs = Math.min(backoffMs + POLL_BACKOFF_STEP_MS, POLL_BACKOFF_MAX_MS)
-                await this.sleep(backoffMs)
+                await sleep(backoffMs, signal)
                 continue
             }
 
-            // PAYLOAD — accumulate rows
+            // PAYLOAD — apply the changelog to the materialized result
             if (result.resultType === 'PAYLOAD' && result.results.data) {
-                const newRows = result.results.data
-                const spaceLeft = MAX_ROWS - this.allRows.length
-
-                if (newRows.length > spaceLeft) {
-                    this.allRows.push(...newRows.slice(0, spaceLeft))
-                    this.callbacks.onRowsReceived(this.allRows, this.allRows.length)
-                    const msg = `Results trimmed to ${MAX_ROWS.toLocaleString()} rows`
-                    if (this.callbacks.onWarning) {
-                        this.callbacks.onWarning(msg)
-                    } else {
-                        this.callbacks.onError(msg)
+                this.result.apply(result.results.data)
+                backoffMs = 0
+
+                if (this.result.size() > this.rowLimit.maxRows && this.rowLimit.policy !== 'pause') {
+                    if (this.rowLimit.policy === 'stop') {
+                        this.result.truncate(this.rowLimit.maxRows)
+                        this.reportRows()
+                        this.reportRowLimit()
+                        await this.performCancel()
+                        this.setState('FINISHED')
+                        return
                     }
-                    await this.performCancel()
-                    this.setState('FINISHED')
-                    return
+                    this.result.keepLast(this.rowLimit.maxRows)
+                    this.reportRowLimit()
                 }
 
-                this.allRows.push(...newRows)
-                this.callbacks.onRowsReceived(this.allRows, this.allRows.length)
-                backoffMs = 0
+                this.reportRows()
+
+                if (this.rowLimit.policy === 'pause' && this.result.size() >= this.pauseAt) {
+                    this.reportRowLimit()
+                    await this.waitForResume()
+                    if (this.cancelRequested) {
+                        return
+                    }
+                }
             }
 
             // EOS — done
@@ -323,51 +686,225 @@ class FlinkQueryRunner {
             }
 
             // Next page
-            token = parseNextToken(result.nextResultUri, token)
+            const nextToken = parseNextToken(result.nextResultUri, token)
+            if (nextToken !== token) {
+                token = nextToken
+                this.checkpoint(token)
+            }
         }
     }
 
     private async handleError(error: unknown): Promise<void> {
         if (isSessionExpired(error) && this.callbacks.onSessionExpired) {
             this.state = 'IDLE'
-            await this.callbacks.onSessionExpired()
+            await this.callbacks.onSessionExpired(this.multiStatementIndex)
             return
         }
         this.handleErrorMessage(error)
         this.setState('FAILED')
     }
 
+    private reportRowLimit(): void {
+        // Rolling results hit the limit on every page — only say so once
+        if (this.rowLimit.policy === 'rolling' && this.rowLimitReported) return
+        this.rowLimitReported = true
+
+        const limit = this.rowLimit.maxRows.toLocaleString()
+        let msg: string
+        if (this.rowLimit.policy === 'stop') {
+            msg = `Row limit of ${limit} reached — results trimmed and query stopped`
+        } else if (this.rowLimit.policy === 'rolling') {
+            msg = `Row limit of ${limit} reached — showing the most recent ${limit} rows while the query keeps running`
+        } else {
+            msg = `Fetching paused at ${this.result.size().toLocaleString()} rows — fetch more to continue`
+        }
+
+        if (this.callbacks.onWarning) {
+            this.callbacks.onWarning(msg)
+        } else {
+            this.callbacks.onError(msg)
+        }
+    }
+
+    private waitForResume(): Promise<void> {
+        this.setState('PAUSED')
+        return new Promise((resolve) => {
+            this.resumeFetching = resolve
+        })
+    }
+
+    private reportRows(): void {
+        this.callbacks.onRowsReceived(this.result.getRows(), this.result.size())
+        this.callbacks.onChangelogStats?.(this.result.getStats())
+        this.callbacks.onChangelogReceived?.(this.result.getChangelog(), this.result.getDroppedChangelogRows())
+    }
+
+    // ── Operation status ──
+
+    private startStatusPolling(operationHandle: string): void {
+        this.stopStatusPolling()
+        const controller = new AbortController()
+        this.statusAbortController = controller
+        void this.pollStatus(operationHandle, controller.signal)
+    }
+
+    private stopStatusPolling(): void {
+        this.statusAbortController?.abort()
+        this.statusAbortController = null
+    }
+
+    private async pollStatus(operationHandle: string, signal: AbortSignal): Promise<void> {
+        const history = this.statusHistory
+        let intervalMs = STATUS_POLL_MIN_MS
+        // Stop with the operation: once it is terminal, replaced by the next statement, or the runner is done
+        while (!signal.aborted && this.operationHandle === operationHandle && this.isRunning()) {
+            try {
+                const { status } = await this.client.getOperationStatus(this.sessionHandle, operationHandle, signal)
+                if (signal.aborted) break
+                // Poll eagerly around transitions, then settle into a slower pace
+                intervalMs = this.recordStatus(status)
+                    ? STATUS_POLL_MIN_MS
+                    : Math.min(intervalMs * 2, STATUS_POLL_MAX_MS)
+                if (isTerminalOperationStatus(status)) break
+            } catch (error) {
+                // Status is informational; result fetching reports the real failures
+                if (signal.aborted || isSessionExpired(error)) break
+            }
+            await sleep(intervalMs, signal)
+        }
+        // A reset may have started a new history in the meantime
+        if (history === this.statusHistory) {
+            this.closeStatusTiming()
+        }
+    }
+
+    /** Returns true if the status changed. */
+    private recordStatus(status: OperationStatus): boolean {
+        const current = this.statusHistory[this.statusHistory.length - 1]
+        if (current && current.status === status && current.leftAt === null) return false
+
+        const now = Date.now()
+        if (current && current.leftAt === null) {
+            current.leftAt = now
+        }
+        this.statusHistory.push({ status, enteredAt: now, leftAt: null })
+        this.reportStatus()
+        return true
+    }
+
+    /** Freeze the duration of the last status once we stop watching the operation. */
+    private closeStatusTiming(): void {
+        const current = this.statusHistory[this.statusHistory.length - 1]
+        if (!current || current.leftAt !== null) return
+        current.leftAt = Date.now()
+        this.reportStatus()
+    }
+
+    private reportStatus(): void {
+        this.callbacks.onOperationStatus?.(this.statusHistory.map((timing) => ({ ...timing })))
+    }
+
+    // ── Checkpoints ──
+
+    private checkpoint(token: number): void {
+        if (!this.operationHandle || !this.callbacks.onCheckpoint) return
+        this.checkpointed = true
+        this.callbacks.onCheckpoint({
+            sessionHandle: this.sessionHandle,
+            operationHandle: this.operationHandle,
+            statement: this.statement,
+            jobId: this.jobId,
+            token,
+            startedAt: this.startedAt,
+        })
+    }
+
+    private clearCheckpoint(): void {
+        if (!this.checkpointed) return
+        this.checkpointed = false
+        this.callbacks.onCheckpoint?.(null)
+    }
+
+    private reportRetry(retry: RetryAttempt | null): void {
+        if (!retry && !this.retrying) return
+        this.retrying = !!retry
+        this.callbacks.onRetry?.(retry)
+    }
+
+    /**
+     * Submission is never retried: a lost response doesn't mean the gateway didn't
+     * start the statement, and repeating an INSERT could run the job twice.
+     */
+    private submissionHint(error: unknown): string {
+        if (this.state !== 'SUBMITTING' || !(error instanceof FlinkSqlGatewayError) || !error.transient) {
+            return ''
+        }
+        return ' — the statement was not resubmitted automatically because it may already be running; check SHOW JOBS before running it again'
+    }
+
     private handleErrorMessage(error: unknown): void {
-        let message = getErrorMessage(error)
+        let message = getErrorMessage(error) + this.submissionHint(error)
+        this.statementError = message
         if (this.multiStatementTotal > 1) {
             message = `Statement ${this.multiStatementIndex + 1}/${this.multiStatementTotal}: ${message}`
         }
         console.error('FlinkQueryRunner error:', message)
-        this.callbacks.onError(message)
+        // When continuing past errors, the statement log carries the message instead
+        if (!this.continueOnError) {
+            this.callbacks.onError(message)
+        }
+    }
+
+    private reportStatementResult(index: number, statement: string, startedAt: number): void {
+        const running = this.isRunning()
+        this.callbacks.onStatementResult?.({
+            index,
+            statement,
+            state: running ? 'RUNNING' : this.state,
+            startedAt,
+            finishedAt: running ? null : Date.now(),
+            jobId: this.jobId,
+            error: this.statementError,
+            isQueryResult: this.isQueryResult,
+            columns: this.columns,
+            rows: running ? [] : this.result.getRows(),
+        })
     }
 
     private setState(state: QueryState): void {
         this.state = state
+        if (!this.isRunning()) {
+            this.stopStatusPolling()
+            this.clearCheckpoint()
+        }
         this.callbacks.onStateChange(state)
     }
 
     private reset(): void {
         this.operationHandle = null
+        this.statement = ''
+        this.startedAt = 0
+        this.checkpointed = false
         this.jobId = null
-        this.allRows = []
+        this.result.clear()
         this.columns = []
         this.cancelRequested = false
         this.submitAbortController = null
         this.fetchAbortController = null
         this.isQueryResultReported = false
+        this.isQueryResult = false
         this.multiStatementIndex = 0
         this.multiStatementTotal = 0
+        this.continueOnError = false
+        this.statementError = null
+        this.rowLimitReported = false
+        this.pauseAt = this.rowLimit.maxRows
+        this.resumeFetching = null
+        this.retrying = false
+        this.stopStatusPolling()
+        this.statusHistory = []
         this.state = 'IDLE'
     }
-
-    private sleep(ms: number): Promise<void> {
-        return new Promise((resolve) => setTimeout(resolve, ms))
-    }
 }
 
 export default FlinkQueryRunner
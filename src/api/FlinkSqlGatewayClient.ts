@@ -13,12 +13,48 @@ import {
     RowFormat,
     CompleteStatementRequestBody,
     CompleteStatementResponseBody,
+    DeployScriptRequestBody,
+    DeployScriptResponseBody,
 } from './FlinkSqlGatewayTypes'
 import { extractErrorMessage } from '../utils/Errors'
+import { DEFAULT_RETRY_POLICY, RetryListener, RetryPolicy, retryDelay, sleep } from './RetryPolicy'
+import parseLosslessJson from './parseLosslessJson'
 
-const API_VERSION = 'v4'
 const DEFAULT_TIMEOUT_MS = 30_000
 
+/** REST API versions this client can speak, newest first. */
+export const SUPPORTED_API_VERSIONS = ['v4', 'v3', 'v2', 'v1'] as const
+
+export type ApiVersion = (typeof SUPPORTED_API_VERSIONS)[number]
+
+export type GatewayFeature = 'rowFormat' | 'completeStatement' | 'configureSession' | 'deployScript'
+
+// Oldest REST API version that offers each feature
+const FEATURE_MIN_VERSION: Record<GatewayFeature, ApiVersion> = {
+    rowFormat: 'v2',
+    completeStatement: 'v2',
+    configureSession: 'v2',
+    deployScript: 'v3',
+}
+
+function versionNumber(version: ApiVersion): number {
+    return parseInt(version.substring(1), 10)
+}
+
+/** Credentials sent with every request, for gateways behind an auth proxy. */
+export type GatewayAuth =
+    | { type: 'none' }
+    | { type: 'basic'; username: string; password: string }
+    | { type: 'bearer'; token: string }
+    | { type: 'headers'; headers: Record<string, string> }
+
+export const NO_AUTH: GatewayAuth = { type: 'none' }
+
+// Statuses an ingress or overloaded gateway returns for failures that usually clear up on their own
+const TRANSIENT_STATUS_CODES = new Set([429, 502, 503, 504])
+
+const SESSION_NOT_FOUND = /Session '[\w-]+' does not exist/
+
 class FlinkSqlGatewayError extends Error {
     public readonly sessionExpired: boolean
 
@@ -26,27 +62,94 @@ class FlinkSqlGatewayError extends Error {
         message: string,
         public readonly statusCode?: number,
         public readonly statusText?: string,
-        sessionExpired = false
+        sessionExpired = false,
+        private readonly networkFailure = false
     ) {
         super(message)
         this.name = 'FlinkSqlGatewayError'
         this.sessionExpired = sessionExpired
     }
+
+    get authenticationFailed(): boolean {
+        return this.statusCode === 401
+    }
+
+    /** The request never got an answer, or got one that is worth retrying. */
+    get transient(): boolean {
+        return this.networkFailure || (this.statusCode !== undefined && TRANSIENT_STATUS_CODES.has(this.statusCode))
+    }
 }
 
 /**
- * Low-level HTTP client for the Flink SQL Gateway REST API v4.
+ * Low-level HTTP client for the Flink SQL Gateway REST API (v1–v4).
  *
  * Each method maps 1-to-1 to an API endpoint. Higher-level orchestration
  * (polling, result aggregation) lives in FlinkQueryRunner.
+ *
+ * Requests use v4 until negotiateApiVersion() has picked the highest version
+ * the gateway and this client have in common.
+ *
+ * Idempotent requests (GETs and heartbeats) are retried on transient failures
+ * according to the retry policy. Everything else — statement submission in
+ * particular — fails on the first error, since repeating it could run a job twice.
  */
 class FlinkSqlGatewayClient {
-    private readonly baseUrl: string
+    private readonly rootUrl: string
+    private readonly authHeaders: Record<string, string>
+    private apiVersion: ApiVersion = SUPPORTED_API_VERSIONS[0]
+    private retryPolicy: RetryPolicy
+
+    constructor(gatewayUrl: string, auth: GatewayAuth = NO_AUTH, retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY) {
+        // Strip trailing slash; the API version prefix is added per request
+        this.rootUrl = gatewayUrl.replace(/\/+$/, '')
+        this.authHeaders = FlinkSqlGatewayClient.buildAuthHeaders(auth)
+        this.retryPolicy = retryPolicy
+    }
+
+    private get baseUrl(): string {
+        return `${this.rootUrl}/${this.apiVersion}`
+    }
+
+    getApiVersion(): ApiVersion {
+        return this.apiVersion
+    }
+
+    supports(feature: GatewayFeature): boolean {
+        return versionNumber(this.apiVersion) >= versionNumber(FEATURE_MIN_VERSION[feature])
+    }
 
-    constructor(gatewayUrl: string) {
-        // Strip trailing slash, prepend API version prefix
-        const base = gatewayUrl.replace(/\/+$/, '')
-        this.baseUrl = `${base}/${API_VERSION}`
+    /**
+     * Ask the gateway which REST versions it serves and switch to the highest one
+     * this client understands. Throws if there is no version in common.
+     */
+    async negotiateApiVersion(): Promise<ApiVersion> {
+        const response = await this.getApiVersions()
+        const offered = new Set((response.versions ?? []).map((v) => v.toLowerCase()))
+        const match = SUPPORTED_API_VERSIONS.find((v) => offered.has(v))
+        if (!match) {
+            throw new FlinkSqlGatewayError(
+                `The gateway offers REST API versions ${response.versions.join(', ') || '(none)'}, ` +
+                    `but this UI supports only ${SUPPORTED_API_VERSIONS.join(', ')}`
+            )
+        }
+        this.apiVersion = match
+        return match
+    }
+
+    private static buildAuthHeaders(auth: GatewayAuth): Record<string, string> {
+        switch (auth.type) {
+            case 'basic':
+                // btoa only handles Latin-1; encode UTF-8 credentials byte by byte first
+                return {
+                    Authorization: `Basic ${btoa(String.fromCharCode(...new TextEncoder().encode(`${auth.username}:${auth.password}`)))}`,
+                }
+            case 'bearer':
+                return { Authorization: `Bearer ${auth.token}` }
+            case 'headers':
+                return { ...auth.headers }
+            default:
+                return {}
+        }
     }
 
     // ── Helpers ──
@@ -56,7 +159,8 @@ class FlinkSqlGatewayClient {
         options: RequestInit = {},
         timeoutMs: number = DEFAULT_TIMEOUT_MS,
         externalSignal?: AbortSignal,
-        overrideUrl?: string
+        overrideUrl?: string,
+        parseBody: (text: string) => unknown = JSON.parse
     ): Promise<T> {
         const controller = new AbortController()
         const timeoutId = setTimeout(() => controller.abort('Request timed out'), timeoutMs)
@@ -78,10 +182,20 @@ class FlinkSqlGatewayClient {
                 signal: controller.signal,
                 headers: {
                     'Content-Type': 'application/json',
+                    ...this.authHeaders,
                     ...options.headers,
                 },
             })
 
+            if (response.status === 401) {
+                throw new FlinkSqlGatewayError(
+                    'Authentication failed (401) — the gateway rejected the credentials configured for this connection. ' +
+                        'Update them in the connection settings and try again.',
+                    response.status,
+                    response.statusText
+                )
+            }
+
             if (!response.ok) {
                 let detail = ''
                 try {
@@ -92,7 +206,8 @@ class FlinkSqlGatewayClient {
                 throw new FlinkSqlGatewayError(
                     detail || `${response.statusText} (${response.status})`,
                     response.status,
-                    response.statusText
+                    response.statusText,
+                    SESSION_NOT_FOUND.test(detail)
                 )
             }
 
@@ -101,7 +216,7 @@ class FlinkSqlGatewayClient {
             if (!text) {
                 return undefined as T
             }
-            const body = JSON.parse(text)
+            const body = parseBody(text) as { errors?: unknown }
 
             // The gateway can return 200 with an errors array for operation-level failures.
             // errors[0] is often a generic message like "Internal server error."
@@ -109,7 +224,7 @@ class FlinkSqlGatewayClient {
             if (body.errors && Array.isArray(body.errors) && body.errors.length > 0) {
                 const allErrors = body.errors as string[]
                 const fullText = allErrors.join('\n')
-                const sessionExpired = /Session '[\w-]+' does not exist/.test(fullText)
+                const sessionExpired = SESSION_NOT_FOUND.test(fullText)
                 throw new FlinkSqlGatewayError(extractErrorMessage(fullText), undefined, undefined, sessionExpired)
             }
 
@@ -123,12 +238,22 @@ class FlinkSqlGatewayClient {
                 if (externalSignal?.aborted) {
                     throw new FlinkSqlGatewayError('Request was cancelled')
                 }
-                throw new FlinkSqlGatewayError('Request timed out — Flink SQL Gateway took too long to respond')
+                throw new FlinkSqlGatewayError(
+                    'Request timed out — Flink SQL Gateway took too long to respond',
+                    undefined,
+                    undefined,
+                    false,
+                    true
+                )
             }
 
             if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
                 throw new FlinkSqlGatewayError(
-                    'Failed to connect to Flink SQL Gateway — the server may be down or unreachable'
+                    'Failed to connect to Flink SQL Gateway — the server may be down or unreachable',
+                    undefined,
+                    undefined,
+                    false,
+                    true
                 )
             }
 
@@ -145,8 +270,43 @@ class FlinkSqlGatewayClient {
         }
     }
 
-    private get<T>(path: string, signal?: AbortSignal): Promise<T> {
-        return this.request<T>(path, { method: 'GET' }, DEFAULT_TIMEOUT_MS, signal)
+    /**
+     * Run an idempotent request, retrying transient failures with jittered
+     * exponential backoff. `onRetry` hears about each retry before its delay.
+     */
+    private async withRetry<T>(send: () => Promise<T>, signal?: AbortSignal, onRetry?: RetryListener): Promise<T> {
+        const { maxAttempts } = this.retryPolicy
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await send()
+            } catch (error) {
+                if (attempt >= maxAttempts || !(error instanceof FlinkSqlGatewayError) || !error.transient) {
+                    throw error
+                }
+                if (signal?.aborted) {
+                    throw new FlinkSqlGatewayError('Request was cancelled')
+                }
+                const delayMs = retryDelay(this.retryPolicy, attempt)
+                onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, reason: error.message })
+                await sleep(delayMs, signal)
+                if (signal?.aborted) {
+                    throw new FlinkSqlGatewayError('Request was cancelled')
+                }
+            }
+        }
+    }
+
+    private get<T>(
+        path: string,
+        signal?: AbortSignal,
+        onRetry?: RetryListener,
+        parseBody?: (text: string) => unknown
+    ): Promise<T> {
+        return this.withRetry(
+            () => this.request<T>(path, { method: 'GET' }, DEFAULT_TIMEOUT_MS, signal, undefined, parseBody),
+            signal,
+            onRetry
+        )
     }
 
     private post<T>(path: string, body?: unknown, signal?: AbortSignal): Promise<T> {
@@ -167,9 +327,8 @@ class FlinkSqlGatewayClient {
 
     /** Like request(), but hits the unversioned base URL (for /api_versions, /info). */
     private requestUnversioned<T>(path: string): Promise<T> {
-        const base = this.baseUrl.replace(`/${API_VERSION}`, '')
-        const url = `${base}${path}`
-        return this.request<T>('', { method: 'GET' }, DEFAULT_TIMEOUT_MS, undefined, url)
+        const url = `${this.rootUrl}${path}`
+        return this.withRetry(() => this.request<T>('', { method: 'GET' }, DEFAULT_TIMEOUT_MS, undefined, url))
     }
 
     // ── API version & info ──
@@ -196,8 +355,23 @@ class FlinkSqlGatewayClient {
         return this.del<CloseSessionResponseBody>(`/sessions/${sessionHandle}`)
     }
 
+    /**
+     * Close a session from a pagehide/beforeunload handler. A keepalive fetch outlives
+     * the page (sendBeacon can't send DELETE); the result is never observed.
+     */
+    closeSessionOnUnload(sessionHandle: string): void {
+        fetch(`${this.baseUrl}/sessions/${sessionHandle}`, {
+            method: 'DELETE',
+            keepalive: true,
+            headers: { ...this.authHeaders },
+        }).catch(() => {
+            // Nothing to do while the page goes away
+        })
+    }
+
     async heartbeat(sessionHandle: string): Promise<void> {
-        await this.post<void>(`/sessions/${sessionHandle}/heartbeat`)
+        // A POST, but repeating it only extends the session again
+        await this.withRetry(() => this.post<void>(`/sessions/${sessionHandle}/heartbeat`))
     }
 
     async configureSession(sessionHandle: string, body: ConfigureSessionRequestBody): Promise<void> {
@@ -216,8 +390,17 @@ class FlinkSqlGatewayClient {
 
     // ── Operations ──
 
-    async getOperationStatus(sessionHandle: string, operationHandle: string): Promise<OperationStatusResponseBody> {
-        return this.get<OperationStatusResponseBody>(`/sessions/${sessionHandle}/operations/${operationHandle}/status`)
+    async getOperationStatus(
+        sessionHandle: string,
+        operationHandle: string,
+        signal?: AbortSignal,
+        onRetry?: RetryListener
+    ): Promise<OperationStatusResponseBody> {
+        return this.get<OperationStatusResponseBody>(
+            `/sessions/${sessionHandle}/operations/${operationHandle}/status`,
+            signal,
+            onRetry
+        )
     }
 
     async cancelOperation(sessionHandle: string, operationHandle: string): Promise<OperationStatusResponseBody> {
@@ -233,11 +416,17 @@ class FlinkSqlGatewayClient {
         operationHandle: string,
         token: number,
         rowFormat: RowFormat = 'JSON',
-        signal?: AbortSignal
+        signal?: AbortSignal,
+        onRetry?: RetryListener
     ): Promise<FetchResultsResponseBody> {
+        // v1 has no row format parameter and always returns JSON rows
+        const query = this.supports('rowFormat') ? `?rowFormat=${rowFormat}` : ''
+        // Rows may hold BIGINT / DECIMAL values a double would round
         return this.get<FetchResultsResponseBody>(
-            `/sessions/${sessionHandle}/operations/${operationHandle}/result/${token}?rowFormat=${rowFormat}`,
-            signal
+            `/sessions/${sessionHandle}/operations/${operationHandle}/result/${token}${query}`,
+            signal,
+            onRetry,
+            parseLosslessJson
         )
     }
 
@@ -245,15 +434,20 @@ class FlinkSqlGatewayClient {
 
     async completeStatement(
         sessionHandle: string,
-        body: CompleteStatementRequestBody
+        body: CompleteStatementRequestBody,
+        signal?: AbortSignal
     ): Promise<CompleteStatementResponseBody> {
-        // Note: the OpenAPI spec says GET but sends a request body.
-        // In practice Flink accepts both; we use GET with body which
-        // mirrors the spec. If the gateway rejects it, switch to POST.
-        return this.request<CompleteStatementResponseBody>(`/sessions/${sessionHandle}/complete-statement`, {
-            method: 'GET',
-            body: JSON.stringify(body),
-        })
+        // The OpenAPI spec declares GET with a request body, which browsers refuse
+        // to send (fetch throws before the request leaves). POST is the only way to
+        // carry the body; gateways that route this endpoint strictly as GET reject
+        // it, so callers must treat completion as optional.
+        return this.post<CompleteStatementResponseBody>(`/sessions/${sessionHandle}/complete-statement`, body, signal)
+    }
+
+    // ── Deploy script ──
+
+    async deployScript(sessionHandle: string, body: DeployScriptRequestBody): Promise<DeployScriptResponseBody> {
+        return this.post<DeployScriptResponseBody>(`/sessions/${sessionHandle}/scripts`, body)
     }
 }
 
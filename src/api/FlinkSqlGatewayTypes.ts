@@ -114,6 +114,17 @@ export interface LogicalType {
     precision?: number
     scale?: number
     children?: LogicalType[]
+    // Nested types as the gateway's LogicalType serializer writes them
+    fields?: RowFieldType[]
+    elementType?: LogicalType
+    keyType?: LogicalType
+    valueType?: LogicalType
+}
+
+export interface RowFieldType {
+    name: string
+    fieldType: LogicalType
+    description?: string
 }
 
 export interface ColumnInfo {
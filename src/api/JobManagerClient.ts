@@ -0,0 +1,94 @@
+import { CheckpointingStatistics, JobDetails, JobExceptions, VertexBackPressure } from './JobManagerTypes'
+
+const DEFAULT_TIMEOUT_MS = 10_000
+
+class JobManagerError extends Error {
+    constructor(
+        message: string,
+        public readonly statusCode?: number
+    ) {
+        super(message)
+        this.name = 'JobManagerError'
+    }
+}
+
+/**
+ * Read-only HTTP client for the Flink JobManager REST API, used for live job metrics.
+ *
+ * No credentials are sent: the JobManager usually sits on a different host than
+ * the gateway, and the gateway's credentials shouldn't leak to it.
+ */
+class JobManagerClient {
+    private readonly rootUrl: string
+
+    constructor(url: string) {
+        this.rootUrl = url.replace(/\/+$/, '')
+    }
+
+    getJob(jobId: string, signal?: AbortSignal): Promise<JobDetails> {
+        return this.get(`/jobs/${jobId}`, signal)
+    }
+
+    getVertexBackPressure(jobId: string, vertexId: string, signal?: AbortSignal): Promise<VertexBackPressure> {
+        return this.get(`/jobs/${jobId}/vertices/${vertexId}/backpressure`, signal)
+    }
+
+    getCheckpoints(jobId: string, signal?: AbortSignal): Promise<CheckpointingStatistics> {
+        return this.get(`/jobs/${jobId}/checkpoints`, signal)
+    }
+
+    getExceptions(jobId: string, signal?: AbortSignal): Promise<JobExceptions> {
+        return this.get(`/jobs/${jobId}/exceptions`, signal)
+    }
+
+    // ── Helpers ──
+
+    private async get<T>(path: string, externalSignal?: AbortSignal): Promise<T> {
+        const controller = new AbortController()
+        const timeoutId = setTimeout(() => controller.abort('Request timed out'), DEFAULT_TIMEOUT_MS)
+        const onExternalAbort = () => controller.abort('Cancelled')
+        externalSignal?.addEventListener('abort', onExternalAbort, { once: true })
+
+        try {
+            const response = await fetch(`${this.rootUrl}${path}`, { signal: controller.signal })
+            if (!response.ok) {
+                // Errors come back as {"errors": ["..."]}
+                let detail = ''
+                try {
+                    const body = await response.json()
+                    detail = Array.isArray(body.errors) ? body.errors[0] : ''
+                } catch {
+                    // ignore unreadable error bodies
+                }
+                throw new JobManagerError(
+                    response.status === 404
+                        ? 'The JobManager does not know this job — it may belong to another cluster, or be too old to be kept'
+                        : detail || `${response.statusText} (${response.status})`,
+                    response.status
+                )
+            }
+            return (await response.json()) as T
+        } catch (error) {
+            if (error instanceof JobManagerError) {
+                throw error
+            }
+            if (error instanceof DOMException && error.name === 'AbortError') {
+                throw new JobManagerError(
+                    externalSignal?.aborted ? 'Request was cancelled' : 'Request to the JobManager timed out'
+                )
+            }
+            if (error instanceof TypeError) {
+                throw new JobManagerError(
+                    'Failed to reach the JobManager REST API — check the URL and that it allows this origin (CORS)'
+                )
+            }
+            throw error
+        } finally {
+            clearTimeout(timeoutId)
+            externalSignal?.removeEventListener('abort', onExternalAbort)
+        }
+    }
+}
+
+export { JobManagerError }
+export default JobManagerClient
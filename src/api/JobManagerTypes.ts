@@ -0,0 +1,138 @@
+// Types for the parts of the Flink JobManager REST API the job detail pane uses.
+// https://nightlies.apache.org/flink/flink-docs-stable/docs/ops/rest_api/
+
+// ── Job ──
+
+export type JobVertexMetricName =
+    | 'read-bytes'
+    | 'write-bytes'
+    | 'read-records'
+    | 'write-records'
+    | 'accumulated-backpressured-time'
+    | 'accumulated-idle-time'
+    | 'accumulated-busy-time'
+
+export interface JobVertexDetails {
+    id: string
+    name: string
+    parallelism: number
+    maxParallelism?: number
+    status: string
+    'start-time': number
+    'end-time': number
+    duration: number
+    tasks: Record<string, number>
+    metrics: Partial<Record<JobVertexMetricName, number>>
+}
+
+export interface JobPlanInput {
+    num: number
+    id: string
+    ship_strategy: string
+    exchange: string
+}
+
+export interface JobPlanNode {
+    id: string
+    parallelism: number
+    operator: string
+    operator_strategy: string
+    description: string
+    inputs?: JobPlanInput[]
+}
+
+export interface JobDetails {
+    jid: string
+    name: string
+    isStoppable: boolean
+    state: string
+    'start-time': number
+    'end-time': number
+    duration: number
+    now: number
+    vertices: JobVertexDetails[]
+    'status-counts': Record<string, number>
+    plan: {
+        jid: string
+        name: string
+        type?: string
+        nodes: JobPlanNode[]
+    }
+}
+
+// ── Back pressure ──
+
+export type BackPressureLevel = 'ok' | 'low' | 'high'
+
+export interface VertexBackPressure {
+    /** 'deprecated' while the JobManager is still sampling; the levels are stale until 'ok'. */
+    status: 'deprecated' | 'ok'
+    backpressureLevel?: BackPressureLevel
+    /** Name used by Flink releases before 1.13 */
+    'backpressure-level'?: BackPressureLevel
+    'end-timestamp'?: number
+    subtasks?: {
+        subtask: number
+        backpressureLevel: BackPressureLevel
+        ratio: number
+        idleRatio: number
+        busyRatio: number
+    }[]
+}
+
+// ── Checkpoints ──
+
+export type CheckpointStatus = 'IN_PROGRESS' | 'COMPLETED' | 'FAILED'
+
+export interface CheckpointStatistics {
+    id: number
+    status: CheckpointStatus
+    is_savepoint: boolean
+    checkpoint_type?: string
+    trigger_timestamp: number
+    latest_ack_timestamp: number
+    state_size: number
+    checkpointed_size?: number
+    end_to_end_duration: number
+    num_subtasks: number
+    num_acknowledged_subtasks: number
+    failure_message?: string
+}
+
+export interface CheckpointingStatistics {
+    counts: {
+        restored: number
+        total: number
+        in_progress: number
+        completed: number
+        failed: number
+    }
+    latest?: {
+        completed: CheckpointStatistics | null
+        savepoint: CheckpointStatistics | null
+        failed: CheckpointStatistics | null
+        restored: { id: number; restore_timestamp: number; is_savepoint: boolean; external_path?: string } | null
+    }
+    history: CheckpointStatistics[]
+}
+
+// ── Exceptions ──
+
+export interface JobExceptionEntry {
+    exceptionName: string
+    stacktrace: string
+    timestamp: number
+    taskName?: string | null
+    endpoint?: string | null
+    taskManagerId?: string | null
+    concurrentExceptions?: JobExceptionEntry[]
+}
+
+export interface JobExceptions {
+    'root-exception'?: string
+    timestamp?: number
+    exceptionHistory?: {
+        entries: JobExceptionEntry[]
+        truncated: boolean
+    }
+}
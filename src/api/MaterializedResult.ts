@@ -0,0 +1,190 @@
+import { RowData } from './FlinkSqlGatewayTypes'
+
+export interface ChangelogStats {
+    inserts: number
+    updates: number
+    deletes: number
+}
+
+// Compact the slot array once this fraction of it is retracted rows
+const COMPACTION_RATIO = 0.5
+const DEFAULT_MAX_CHANGELOG_ROWS = 10_000
+
+/**
+ * Materializes a Flink changelog into the current table state, the way the
+ * Flink SQL client's table mode does:
+ *   - INSERT / UPDATE_AFTER add a row
+ *   - UPDATE_BEFORE / DELETE retract the most recent row with identical fields
+ *
+ * An UPDATE_AFTER that directly follows an UPDATE_BEFORE takes over the retracted
+ * row's position, so updated rows stay in place instead of jumping to the end.
+ *
+ * The raw changelog is kept alongside in arrival order (the SQL client's changelog
+ * mode), capped to the most recent `maxChangelogRows` entries.
+ */
+class MaterializedResult {
+    // Row slots in display order; retracted rows leave a null until compaction
+    private slots: (RowData | null)[] = []
+    // Serialized fields -> slot positions holding an identical row
+    private positions: Map<string, number[]> = new Map()
+    private retractedCount = 0
+    private pendingUpdateSlot: number | null = null
+    private stats: ChangelogStats = { inserts: 0, updates: 0, deletes: 0 }
+    private changelog: RowData[] = []
+    private droppedChangelogRows = 0
+    private readonly maxChangelogRows: number
+
+    constructor(maxChangelogRows: number = DEFAULT_MAX_CHANGELOG_ROWS) {
+        this.maxChangelogRows = maxChangelogRows
+    }
+
+    apply(rows: RowData[]): void {
+        this.appendChangelog(rows)
+        for (const row of rows) {
+            switch (row.kind) {
+                case 'INSERT':
+                    this.stats.inserts++
+                    this.pendingUpdateSlot = null
+                    this.insert(row, null)
+                    break
+                case 'UPDATE_BEFORE':
+                    this.pendingUpdateSlot = this.retract(row)
+                    break
+                case 'UPDATE_AFTER':
+                    this.stats.updates++
+                    this.insert(row, this.pendingUpdateSlot)
+                    this.pendingUpdateSlot = null
+                    break
+                case 'DELETE':
+                    this.stats.deletes++
+                    this.pendingUpdateSlot = null
+                    this.retract(row)
+                    break
+            }
+        }
+        this.compactIfNeeded()
+    }
+
+    /** Current table state in display order. */
+    getRows(): RowData[] {
+        const rows: RowData[] = []
+        for (const row of this.slots) {
+            if (row) rows.push(row)
+        }
+        return rows
+    }
+
+    /** Every change received, in arrival order (oldest entries dropped beyond the cap). */
+    getChangelog(): RowData[] {
+        return [...this.changelog]
+    }
+
+    /** Number of changelog entries dropped to stay within the cap. */
+    getDroppedChangelogRows(): number {
+        return this.droppedChangelogRows
+    }
+
+    size(): number {
+        return this.slots.length - this.retractedCount
+    }
+
+    getStats(): ChangelogStats {
+        return { ...this.stats }
+    }
+
+    /** Drop the newest rows so at most `maxRows` remain. */
+    truncate(maxRows: number): void {
+        const rows = this.getRows().slice(0, maxRows)
+        this.rebuild(rows)
+    }
+
+    /** Drop the oldest rows so at most `maxRows` remain. */
+    keepLast(maxRows: number): void {
+        const rows = this.getRows()
+        this.rebuild(rows.slice(Math.max(0, rows.length - maxRows)))
+    }
+
+    clear(): void {
+        this.rebuild([])
+        this.stats = { inserts: 0, updates: 0, deletes: 0 }
+        this.changelog = []
+        this.droppedChangelogRows = 0
+    }
+
+    private appendChangelog(rows: RowData[]): void {
+        this.changelog.push(...rows)
+        const overflow = this.changelog.length - this.maxChangelogRows
+        if (overflow > 0) {
+            this.changelog.splice(0, overflow)
+            this.droppedChangelogRows += overflow
+        }
+    }
+
+    private insert(row: RowData, slot: number | null): void {
+        let position: number
+        if (slot !== null && this.slots[slot] === null) {
+            position = slot
+            this.slots[slot] = row
+            this.retractedCount--
+        } else {
+            position = this.slots.length
+            this.slots.push(row)
+        }
+
+        const key = this.keyOf(row)
+        const list = this.positions.get(key)
+        if (list) {
+            list.push(position)
+        } else {
+            this.positions.set(key, [position])
+        }
+    }
+
+    /** Remove the most recent identical row; returns its slot, or null if none matched. */
+    private retract(row: RowData): number | null {
+        const key = this.keyOf(row)
+        const list = this.positions.get(key)
+        if (!list || list.length === 0) {
+            return null
+        }
+
+        // Positions can be out of order once update slots are reused
+        let newestIndex = 0
+        for (let i = 1; i < list.length; i++) {
+            if (list[i] > list[newestIndex]) newestIndex = i
+        }
+        const position = list[newestIndex]
+        list.splice(newestIndex, 1)
+        if (list.length === 0) {
+            this.positions.delete(key)
+        }
+
+        this.slots[position] = null
+        this.retractedCount++
+        return position
+    }
+
+    private compactIfNeeded(): void {
+        // Keep slots stable while an UPDATE_BEFORE waits for its UPDATE_AFTER on the next page
+        if (this.pendingUpdateSlot !== null) return
+        if (this.retractedCount > 0 && this.retractedCount >= this.slots.length * COMPACTION_RATIO) {
+            this.rebuild(this.getRows())
+        }
+    }
+
+    private rebuild(rows: RowData[]): void {
+        this.slots = []
+        this.positions.clear()
+        this.retractedCount = 0
+        this.pendingUpdateSlot = null
+        for (const row of rows) {
+            this.insert(row, null)
+        }
+    }
+
+    private keyOf(row: RowData): string {
+        return JSON.stringify(row.fields)
+    }
+}
+
+export default MaterializedResult
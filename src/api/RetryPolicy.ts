@@ -0,0 +1,52 @@
+/**
+ * How idempotent gateway requests are retried after a transient failure
+ * (network error, timeout, 429/502/503/504).
+ */
+export interface RetryPolicy {
+    /** Total attempts including the first one; 1 disables retries. */
+    maxAttempts: number
+    /** Upper bound of the first backoff; doubles on every further attempt. */
+    baseDelayMs: number
+    maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxAttempts: 4, baseDelayMs: 300, maxDelayMs: 5_000 }
+
+export interface RetryAttempt {
+    /** The attempt about to be made (2 for the first retry). */
+    attempt: number
+    maxAttempts: number
+    delayMs: number
+    reason: string
+}
+
+export type RetryListener = (retry: RetryAttempt) => void
+
+/**
+ * "Full jitter" exponential backoff: a random delay between 0 and
+ * min(maxDelayMs, baseDelayMs * 2^(failedAttempts - 1)), so clients that failed
+ * together don't retry together.
+ */
+export function retryDelay(policy: RetryPolicy, failedAttempts: number, random: () => number = Math.random): number {
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (failedAttempts - 1))
+    return Math.round(random() * ceiling)
+}
+
+/** Resolves after `ms`, or as soon as `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        if (signal?.aborted) {
+            resolve()
+            return
+        }
+        const onAbort = () => {
+            clearTimeout(timeoutId)
+            resolve()
+        }
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort)
+            resolve()
+        }, ms)
+        signal?.addEventListener('abort', onAbort, { once: true })
+    })
+}
@@ -0,0 +1,358 @@
+import { LogicalType } from './FlinkSqlGatewayTypes'
+
+/**
+ * A result field interpreted according to its column's LogicalType.
+ *
+ * Values arrive in the gateway's JSON row format: numbers for numeric types and
+ * intervals (months / milliseconds) — as strings where a double would round them,
+ * see parseLosslessJson — ISO-8601 strings for temporal types, base64
+ * for binary data and JSON arrays / objects for ARRAY, MULTISET, MAP and ROW.
+ */
+export type DecodedValue =
+    | { kind: 'null' }
+    | { kind: 'boolean'; value: boolean }
+    | { kind: 'number'; value: number }
+    | { kind: 'decimal'; text: string; scale: number | undefined }
+    | { kind: 'string'; value: string }
+    | { kind: 'binary'; bytes: Uint8Array }
+    | { kind: 'date' | 'time'; text: string }
+    | { kind: 'timestamp'; text: string; epochMillis: number; utc: boolean }
+    | { kind: 'interval'; unit: 'months' | 'millis'; value: number }
+    | { kind: 'array'; items: DecodedValue[] }
+    | { kind: 'multiset'; entries: { value: DecodedValue; count: number }[] }
+    | { kind: 'map'; entries: { key: DecodedValue; value: DecodedValue }[] }
+    | { kind: 'row'; fields: { name: string; value: DecodedValue }[] }
+    | { kind: 'raw'; value: unknown }
+
+const NULL: DecodedValue = { kind: 'null' }
+
+const NUMERIC_TYPES = new Set(['TINYINT', 'SMALLINT', 'INTEGER', 'BIGINT', 'FLOAT', 'DOUBLE', 'DECIMAL'])
+
+export function isNumericType(type: LogicalType): boolean {
+    return NUMERIC_TYPES.has(type.type)
+}
+
+// ── Nested type lookup ──
+// The gateway describes nested types with fields / elementType / keyType / valueType;
+// `children` is accepted as a positional fallback.
+
+function elementTypeOf(type: LogicalType): LogicalType | undefined {
+    return type.elementType ?? type.children?.[0]
+}
+
+function mapTypesOf(type: LogicalType): [LogicalType | undefined, LogicalType | undefined] {
+    return [type.keyType ?? type.children?.[0], type.valueType ?? type.children?.[1]]
+}
+
+function rowFieldsOf(type: LogicalType): { name: string; type: LogicalType | undefined }[] {
+    if (type.fields) {
+        return type.fields.map((field) => ({ name: field.name, type: field.fieldType }))
+    }
+    return (type.children ?? []).map((child, i) => ({ name: `f${i}`, type: child }))
+}
+
+// ── Decoding ──
+
+/** Interpret a raw JSON field using its LogicalType, recursing into nested types. */
+export default function decodeValue(type: LogicalType | undefined, raw: unknown): DecodedValue {
+    if (raw === null || raw === undefined) return NULL
+    if (!type) return { kind: 'raw', value: raw }
+
+    switch (type.type) {
+        case 'BOOLEAN':
+            return typeof raw === 'boolean' ? { kind: 'boolean', value: raw } : { kind: 'raw', value: raw }
+        case 'TINYINT':
+        case 'SMALLINT':
+        case 'INTEGER':
+        case 'FLOAT':
+        case 'DOUBLE':
+            return toNumber(raw, (value) => ({ kind: 'number', value }))
+        case 'BIGINT':
+            // Beyond 2^53 a double drops digits, so BIGINT is kept as exact text too
+            return decodeDecimal(raw, 0)
+        case 'DECIMAL':
+            return decodeDecimal(raw, type.scale)
+        case 'CHAR':
+        case 'VARCHAR':
+            return { kind: 'string', value: String(raw) }
+        case 'BINARY':
+        case 'VARBINARY':
+            return decodeBinary(raw)
+        case 'DATE':
+            return { kind: 'date', text: String(raw) }
+        case 'TIME_WITHOUT_TIME_ZONE':
+            return { kind: 'time', text: String(raw) }
+        case 'TIMESTAMP_WITHOUT_TIME_ZONE':
+        case 'TIMESTAMP_WITH_TIME_ZONE':
+        case 'TIMESTAMP_WITH_LOCAL_TIME_ZONE':
+            return decodeTimestamp(String(raw))
+        case 'INTERVAL_YEAR_MONTH':
+            return toNumber(raw, (value) => ({ kind: 'interval', unit: 'months', value }))
+        case 'INTERVAL_DAY_TIME':
+            return toNumber(raw, (value) => ({ kind: 'interval', unit: 'millis', value }))
+        case 'ARRAY': {
+            if (!Array.isArray(raw)) return { kind: 'raw', value: raw }
+            const elementType = elementTypeOf(type)
+            return { kind: 'array', items: raw.map((item) => decodeValue(elementType, item)) }
+        }
+        case 'MULTISET': {
+            if (!isObject(raw)) return { kind: 'raw', value: raw }
+            const elementType = elementTypeOf(type)
+            return {
+                kind: 'multiset',
+                entries: Object.entries(raw).map(([value, count]) => ({
+                    value: decodeValue(elementType, parseKey(elementType, value)),
+                    count: Number(count),
+                })),
+            }
+        }
+        case 'MAP': {
+            if (!isObject(raw)) return { kind: 'raw', value: raw }
+            const [keyType, valueType] = mapTypesOf(type)
+            return {
+                kind: 'map',
+                entries: Object.entries(raw).map(([key, value]) => ({
+                    key: decodeValue(keyType, parseKey(keyType, key)),
+                    value: decodeValue(valueType, value),
+                })),
+            }
+        }
+        case 'ROW':
+        case 'STRUCTURED_TYPE': {
+            const fields = rowFieldsOf(type)
+            if (Array.isArray(raw)) {
+                return {
+                    kind: 'row',
+                    fields: raw.map((value, i) => ({
+                        name: fields[i]?.name ?? `f${i}`,
+                        value: decodeValue(fields[i]?.type, value),
+                    })),
+                }
+            }
+            if (!isObject(raw)) return { kind: 'raw', value: raw }
+            // Fall back to the object's own keys when the type carries no field list
+            const named = fields.length > 0 ? fields : Object.keys(raw).map((name) => ({ name, type: undefined }))
+            return {
+                kind: 'row',
+                fields: named.map((field) => ({ name: field.name, value: decodeValue(field.type, raw[field.name]) })),
+            }
+        }
+        default:
+            return { kind: 'raw', value: raw }
+    }
+}
+
+function isObject(raw: unknown): raw is Record<string, unknown> {
+    return typeof raw === 'object' && raw !== null && !Array.isArray(raw)
+}
+
+function toNumber(raw: unknown, wrap: (value: number) => DecodedValue): DecodedValue {
+    const value = typeof raw === 'number' ? raw : Number(raw)
+    return Number.isNaN(value) ? { kind: 'raw', value: raw } : wrap(value)
+}
+
+/** JSON object keys are always strings; turn numeric/boolean keys back into their type. */
+function parseKey(type: LogicalType | undefined, key: string): unknown {
+    if (!type || type.type === 'BIGINT' || type.type === 'DECIMAL') return key
+    if (isNumericType(type) || type.type === 'BOOLEAN') {
+        try {
+            return JSON.parse(key)
+        } catch {
+            return key
+        }
+    }
+    return key
+}
+
+const DECIMAL = /^([-+]?)(\d*)(?:\.(\d*))?(?:[eE]([-+]?\d+))?$/
+
+/**
+ * DECIMAL and BIGINT stay text so no digits are lost to a double; the client
+ * hands over values too long for one as strings. Exponent notation (as String()
+ * prints very small or large numbers) is expanded to plain digits.
+ */
+function decodeDecimal(raw: unknown, scale: number | undefined): DecodedValue {
+    if (typeof raw !== 'number' && typeof raw !== 'string') return { kind: 'raw', value: raw }
+    const match = DECIMAL.exec(String(raw).trim())
+    if (!match || (!match[2] && !match[3])) return { kind: 'raw', value: raw }
+    const [, sign, intPart, fracPart = '', exponent] = match
+    let digits = intPart + fracPart
+    let point = intPart.length + Number(exponent ?? 0)
+    if (point < 0) {
+        digits = '0'.repeat(-point) + digits
+        point = 0
+    } else if (point > digits.length) {
+        digits = digits + '0'.repeat(point - digits.length)
+    }
+    const int = digits.substring(0, point).replace(/^0+(?=\d)/, '') || '0'
+    const frac = digits.substring(point)
+    return { kind: 'decimal', text: `${sign === '-' ? '-' : ''}${int}${frac ? `.${frac}` : ''}`, scale }
+}
+
+function decodeBinary(raw: unknown): DecodedValue {
+    if (Array.isArray(raw)) {
+        return { kind: 'binary', bytes: Uint8Array.from(raw as number[]) }
+    }
+    if (typeof raw !== 'string') return { kind: 'raw', value: raw }
+    try {
+        const text = atob(raw)
+        const bytes = new Uint8Array(text.length)
+        for (let i = 0; i < text.length; i++) {
+            bytes[i] = text.charCodeAt(i)
+        }
+        return { kind: 'binary', bytes }
+    } catch {
+        return { kind: 'raw', value: raw }
+    }
+}
+
+function decodeTimestamp(text: string): DecodedValue {
+    // TIMESTAMP_LTZ values carry a trailing 'Z' (UTC); plain TIMESTAMPs have no zone
+    const utc = /(Z|[+-]\d{2}:?\d{2})$/.test(text)
+    const iso = text.replace(' ', 'T')
+    const epochMillis = Date.parse(utc ? iso : `${iso}Z`)
+    return { kind: 'timestamp', text, epochMillis, utc }
+}
+
+// ── Rendering ──
+
+/** Add 1 to a string of decimal digits, e.g. '099' → '100'. */
+function incrementDigits(digits: string): string {
+    const chars = digits.split('')
+    for (let i = chars.length - 1; i >= 0; i--) {
+        if (chars[i] !== '9') {
+            chars[i] = String(Number(chars[i]) + 1)
+            return chars.join('')
+        }
+        chars[i] = '0'
+    }
+    return '1' + chars.join('')
+}
+
+/** Pad or round (half up) a plain decimal string to `scale` fraction digits. */
+function formatDecimal(text: string, scale: number | undefined): string {
+    if (scale === undefined) return text
+    const negative = text.startsWith('-')
+    const [int, frac = ''] = (negative ? text.substring(1) : text).split('.')
+    let digits = int + frac.padEnd(scale, '0').substring(0, scale)
+    if (frac.length > scale && frac[scale] >= '5') {
+        digits = incrementDigits(digits)
+    }
+    const intLength = digits.length - scale
+    const rounded = scale > 0 ? `${digits.substring(0, intLength)}.${digits.substring(intLength)}` : digits
+    return negative && /[1-9]/.test(digits) ? `-${rounded}` : rounded
+}
+
+function pad(value: number, width = 2): string {
+    return String(value).padStart(width, '0')
+}
+
+function formatInterval(value: DecodedValue & { kind: 'interval' }): string {
+    const sign = value.value < 0 ? '-' : '+'
+    const abs = Math.abs(value.value)
+    if (value.unit === 'months') {
+        return `${sign}${Math.floor(abs / 12)}-${pad(abs % 12)}`
+    }
+    const days = Math.floor(abs / 86_400_000)
+    const hours = Math.floor((abs % 86_400_000) / 3_600_000)
+    const minutes = Math.floor((abs % 3_600_000) / 60_000)
+    const seconds = Math.floor((abs % 60_000) / 1000)
+    return `${sign}${days} ${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(abs % 1000, 3)}`
+}
+
+/**
+ * Render a decoded value the way the Flink SQL client prints it: x'..' for binary,
+ * [..] for arrays, {k=v} for maps and multisets, (..) for rows. Top-level nulls
+ * return null so the caller can style them.
+ */
+export function formatValue(value: DecodedValue): string | null {
+    return value.kind === 'null' ? null : formatNested(value)
+}
+
+function formatNested(value: DecodedValue): string {
+    switch (value.kind) {
+        case 'null':
+            return 'NULL'
+        case 'boolean':
+            return value.value ? 'TRUE' : 'FALSE'
+        case 'number':
+            return String(value.value)
+        case 'decimal':
+            // Keep the declared scale so 1.50 doesn't render as 1.5
+            return formatDecimal(value.text, value.scale)
+        case 'string':
+            return value.value
+        case 'binary':
+            return `x'${Array.from(value.bytes, (b) => b.toString(16).padStart(2, '0')).join('')}'`
+        case 'date':
+        case 'time':
+            return value.text
+        case 'timestamp':
+            return value.text.replace('T', ' ')
+        case 'interval':
+            return formatInterval(value)
+        case 'array':
+            return `[${value.items.map(formatNested).join(', ')}]`
+        case 'multiset':
+            return `{${value.entries.map((e) => `${formatNested(e.value)}=${e.count}`).join(', ')}}`
+        case 'map':
+            return `{${value.entries.map((e) => `${formatNested(e.key)}=${formatNested(e.value)}`).join(', ')}}`
+        case 'row':
+            return `(${value.fields.map((f) => formatNested(f.value)).join(', ')})`
+        case 'raw':
+            return typeof value.value === 'object' ? JSON.stringify(value.value) : String(value.value)
+    }
+}
+
+// ── Sorting ──
+
+function sortKey(value: DecodedValue): number | string | null {
+    switch (value.kind) {
+        case 'null':
+            return null
+        case 'boolean':
+            return value.value ? 1 : 0
+        case 'number':
+        case 'interval':
+            return value.value
+        case 'decimal':
+            return value.text
+        case 'timestamp':
+            return Number.isNaN(value.epochMillis) ? value.text : value.epochMillis
+        default:
+            return formatNested(value)
+    }
+}
+
+/** Compare two plain decimal strings digit by digit, without going through a double. */
+function compareDecimals(a: string, b: string): number {
+    const negA = a.startsWith('-') && /[1-9]/.test(a)
+    const negB = b.startsWith('-') && /[1-9]/.test(b)
+    if (negA !== negB) return negA ? -1 : 1
+    const [intA, fracA = ''] = a.replace(/^-/, '').split('.')
+    const [intB, fracB = ''] = b.replace(/^-/, '').split('.')
+    const width = Math.max(fracA.length, fracB.length)
+    let order = intA.length - intB.length
+    if (order === 0) {
+        const keyA = intA + fracA.padEnd(width, '0')
+        const keyB = intB + fracB.padEnd(width, '0')
+        order = keyA < keyB ? -1 : keyA > keyB ? 1 : 0
+    }
+    return negA ? -order : order
+}
+
+/** Order decoded values by their real type: numbers numerically, timestamps by instant, nulls first. */
+export function compareValues(a: DecodedValue, b: DecodedValue): number {
+    if (a.kind === 'decimal' && b.kind === 'decimal') {
+        return compareDecimals(a.text, b.text)
+    }
+    const keyA = sortKey(a)
+    const keyB = sortKey(b)
+    if (keyA === null || keyB === null) {
+        return keyA === keyB ? 0 : keyA === null ? -1 : 1
+    }
+    if (typeof keyA === 'number' && typeof keyB === 'number') {
+        return keyA - keyB
+    }
+    return String(keyA).localeCompare(String(keyB))
+}
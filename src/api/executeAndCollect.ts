@@ -0,0 +1,49 @@
+import FlinkSqlGatewayClient from './FlinkSqlGatewayClient'
+import { FetchResultsResponseBody } from './FlinkSqlGatewayTypes'
+import { parseNextToken } from '../utils/Errors'
+
+/** Run a statement and collect every row of its result; for short metadata statements like SHOW / DESCRIBE. */
+export default async function executeAndCollect(
+    client: FlinkSqlGatewayClient,
+    sessionHandle: string,
+    statement: string
+): Promise<unknown[][]> {
+    const execResponse = await client.executeStatement(sessionHandle, { statement })
+    const operationHandle = execResponse.operationHandle
+    const allRows: unknown[][] = []
+    let token = 0
+
+    while (true) {
+        const result: FetchResultsResponseBody = await client.fetchResults(
+            sessionHandle,
+            operationHandle,
+            token,
+            'JSON'
+        )
+
+        if (result.resultType === 'NOT_READY') {
+            await new Promise((resolve) => setTimeout(resolve, 100))
+            continue
+        }
+
+        if (result.resultType === 'PAYLOAD' && result.results?.data) {
+            for (const row of result.results.data) {
+                allRows.push(row.fields)
+            }
+        }
+
+        if (result.resultType === 'EOS') {
+            break
+        }
+
+        token = parseNextToken(result.nextResultUri, token)
+    }
+
+    try {
+        await client.closeOperation(sessionHandle, operationHandle)
+    } catch {
+        // ignore close errors
+    }
+
+    return allRows
+}
@@ -0,0 +1,46 @@
+// A JSON number token: optional sign, integer part, fraction, exponent
+const NUMBER = /-?\d+(?:\.\d+)?(?:[eE][-+]?\d+)?/y
+
+/** Whether a number token would come back from a double with different digits. */
+function losesPrecision(token: string): boolean {
+    if (!/[.eE]/.test(token)) {
+        return !Number.isSafeInteger(Number(token))
+    }
+    const mantissa = token.replace(/^-/, '').replace(/[eE].*$/, '')
+    const significant = mantissa.replace('.', '').replace(/^0+/, '').replace(/0+$/, '')
+    return significant.length > 15 || !Number.isFinite(Number(token))
+}
+
+/**
+ * JSON.parse, except numbers a double can't hold exactly (BIGINT beyond 2^53,
+ * DECIMAL(38, x)) are kept as their source text in a string. Everything that
+ * reads a numeric field accepts strings, so only the digits change: they stay exact.
+ */
+export default function parseLosslessJson(text: string): unknown {
+    let out = ''
+    let copied = 0
+    let i = 0
+    while (i < text.length) {
+        const ch = text[i]
+        if (ch === '"') {
+            // Skip the string, including escaped quotes
+            i++
+            while (i < text.length && text[i] !== '"') {
+                i += text[i] === '\\' ? 2 : 1
+            }
+            i++
+        } else if (ch === '-' || (ch >= '0' && ch <= '9')) {
+            NUMBER.lastIndex = i
+            const token = NUMBER.exec(text)?.[0]
+            if (!token) return JSON.parse(text)
+            if (losesPrecision(token)) {
+                out += `${text.substring(copied, i)}"${token}"`
+                copied = i + token.length
+            }
+            i += token.length
+        } else {
+            i++
+        }
+    }
+    return JSON.parse(copied === 0 ? text : out + text.substring(copied))
+}
@@ -0,0 +1,140 @@
+import React, { useState } from 'react'
+import {
+    Box,
+    FormControlLabel,
+    IconButton,
+    MenuItem,
+    Popover,
+    Switch,
+    TextField,
+    Tooltip,
+    Typography,
+} from '@mui/material'
+import AutorenewIcon from '@mui/icons-material/Autorenew'
+import { AutoRefresh } from '../schema/QueryInfo'
+
+type IntervalUnit = 'seconds' | 'minutes'
+
+const UNIT_MS: Record<IntervalUnit, number> = { seconds: 1000, minutes: 60_000 }
+const MIN_INTERVAL_MS = 5_000
+const DEFAULT_AUTO_REFRESH: AutoRefresh = { enabled: false, intervalMs: 60_000, highlightChanges: false }
+
+interface AutoRefreshSettingsProps {
+    autoRefresh: AutoRefresh | undefined
+    onChange: (autoRefresh: AutoRefresh) => void
+}
+
+function describeInterval(intervalMs: number): string {
+    return intervalMs % 60_000 === 0 ? `${intervalMs / 60_000} min` : `${intervalMs / 1000} s`
+}
+
+export default function AutoRefreshSettings({ autoRefresh, onChange }: AutoRefreshSettingsProps) {
+    const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null)
+    const current = autoRefresh ?? DEFAULT_AUTO_REFRESH
+    const [unit, setUnit] = useState<IntervalUnit>('seconds')
+    const [amountText, setAmountText] = useState('')
+
+    const handleOpen = (e: React.MouseEvent<HTMLElement>) => {
+        const initialUnit = current.intervalMs % 60_000 === 0 ? 'minutes' : 'seconds'
+        setUnit(initialUnit)
+        setAmountText(String(current.intervalMs / UNIT_MS[initialUnit]))
+        setAnchorEl(e.currentTarget)
+    }
+
+    const commitInterval = (nextUnit = unit) => {
+        const amount = Number(amountText)
+        if (!Number.isFinite(amount) || amount <= 0) {
+            setAmountText(String(current.intervalMs / UNIT_MS[nextUnit]))
+            return
+        }
+        const intervalMs = Math.max(Math.round(amount * UNIT_MS[nextUnit]), MIN_INTERVAL_MS)
+        setAmountText(String(intervalMs / UNIT_MS[nextUnit]))
+        if (intervalMs !== current.intervalMs) {
+            onChange({ ...current, intervalMs })
+        }
+    }
+
+    return (
+        <>
+            <Tooltip
+                title={
+                    current.enabled
+                        ? `Re-running every ${describeInterval(current.intervalMs)} while this tab is active`
+                        : 'Auto-refresh: off'
+                }
+            >
+                <IconButton size="small" onClick={handleOpen} color={current.enabled ? 'primary' : 'default'}>
+                    <AutorenewIcon fontSize="small" />
+                </IconButton>
+            </Tooltip>
+            <Popover
+                open={!!anchorEl}
+                anchorEl={anchorEl}
+                onClose={() => {
+                    commitInterval()
+                    setAnchorEl(null)
+                }}
+                anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+                transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+            >
+                <Box sx={{ p: 2, width: 300 }}>
+                    <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                        Auto-refresh
+                    </Typography>
+                    <FormControlLabel
+                        control={
+                            <Switch
+                                size="small"
+                                checked={current.enabled}
+                                onChange={(e) => onChange({ ...current, enabled: e.target.checked })}
+                            />
+                        }
+                        label={<Typography variant="body2">Re-run this tab on a schedule</Typography>}
+                    />
+                    <Box sx={{ display: 'flex', gap: 1, my: 1 }}>
+                        <TextField
+                            label="Every"
+                            type="number"
+                            size="small"
+                            value={amountText}
+                            onChange={(e) => setAmountText(e.target.value)}
+                            onBlur={() => commitInterval()}
+                            onKeyDown={(e) => e.key === 'Enter' && commitInterval()}
+                            slotProps={{ htmlInput: { min: 1 } }}
+                            sx={{ flex: 1 }}
+                        />
+                        <TextField
+                            select
+                            size="small"
+                            value={unit}
+                            onChange={(e) => {
+                                const nextUnit = e.target.value as IntervalUnit
+                                setUnit(nextUnit)
+                                commitInterval(nextUnit)
+                            }}
+                            sx={{ width: 120 }}
+                        >
+                            <MenuItem value="seconds">seconds</MenuItem>
+                            <MenuItem value="minutes">minutes</MenuItem>
+                        </TextField>
+                    </Box>
+                    <FormControlLabel
+                        control={
+                            <Switch
+                                size="small"
+                                checked={current.highlightChanges}
+                                onChange={(e) => onChange({ ...current, highlightChanges: e.target.checked })}
+                            />
+                        }
+                        label={<Typography variant="body2">Highlight cells changed since the last run</Typography>}
+                    />
+                    <Typography variant="caption" color="text.secondary" component="p" sx={{ mt: 1 }}>
+                        Only the active tab refreshes; switching to another tab suspends this schedule. A run is skipped
+                        while the previous one is still executing (a run paused at its row limit doesn't count), and
+                        none start while the browser tab is hidden.
+                    </Typography>
+                </Box>
+            </Popover>
+        </>
+    )
+}
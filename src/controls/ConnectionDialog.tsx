@@ -1,5 +1,6 @@
 import React, { useState } from 'react'
 import {
+    Box,
     Button,
     Dialog,
     DialogActions,
@@ -11,13 +12,69 @@ import {
     ListItemButton,
     ListItemIcon,
     ListItemText,
+    MenuItem,
     Radio,
     TextField,
     Typography,
 } from '@mui/material'
 import DeleteIcon from '@mui/icons-material/Delete'
+import EditIcon from '@mui/icons-material/Edit'
 import AddIcon from '@mui/icons-material/Add'
+import { GatewayAuth, NO_AUTH } from '../api/FlinkSqlGatewayClient'
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from '../api/RetryPolicy'
 import ConnectionManager from '../schema/ConnectionManager'
+import GatewayConnection, { EMPTY_SESSION_DEFAULTS, SessionDefaults } from '../schema/GatewayConnection'
+
+type AuthType = GatewayAuth['type']
+
+const AUTH_TYPE_LABELS: Record<AuthType, string> = {
+    none: 'None',
+    basic: 'Basic (username / password)',
+    bearer: 'Bearer token',
+    headers: 'Custom headers',
+}
+
+/** Parse "Name: value" lines into a header map, skipping blank and malformed lines. */
+function parseHeaders(text: string): Record<string, string> {
+    const headers: Record<string, string> = {}
+    for (const line of text.split('\n')) {
+        const idx = line.indexOf(':')
+        if (idx <= 0) continue
+        const key = line.substring(0, idx).trim()
+        if (key) headers[key] = line.substring(idx + 1).trim()
+    }
+    return headers
+}
+
+function formatHeaders(headers: Record<string, string>): string {
+    return Object.entries(headers)
+        .map(([key, value]) => `${key}: ${value}`)
+        .join('\n')
+}
+
+/** Parse "key=value" lines into session properties; values may themselves contain '='. */
+function parseProperties(text: string): Record<string, string> {
+    const properties: Record<string, string> = {}
+    for (const line of text.split('\n')) {
+        const idx = line.indexOf('=')
+        if (idx <= 0) continue
+        const key = line.substring(0, idx).trim()
+        if (key) properties[key] = line.substring(idx + 1).trim()
+    }
+    return properties
+}
+
+function formatProperties(properties: Record<string, string>): string {
+    return Object.entries(properties)
+        .map(([key, value]) => `${key}=${value}`)
+        .join('\n')
+}
+
+/** A whole number of at least `min`, or `fallback` when the field doesn't hold one. */
+function parseCount(text: string, min: number, fallback: number): number {
+    const value = Number(text.trim())
+    return text.trim() && Number.isInteger(value) && value >= min ? value : fallback
+}
 
 interface ConnectionDialogProps {
     open: boolean
@@ -28,7 +85,19 @@ interface ConnectionDialogProps {
 export default function ConnectionDialog({ open, onClose, connectionManager }: ConnectionDialogProps) {
     const [name, setName] = useState('')
     const [url, setUrl] = useState('')
+    const [jobManagerUrl, setJobManagerUrl] = useState('')
+    const [authType, setAuthType] = useState<AuthType>('none')
+    const [username, setUsername] = useState('')
+    const [password, setPassword] = useState('')
+    const [token, setToken] = useState('')
+    const [headersText, setHeadersText] = useState('')
+    const [propertiesText, setPropertiesText] = useState('')
+    const [initScript, setInitScript] = useState('')
+    const [maxAttemptsText, setMaxAttemptsText] = useState(String(DEFAULT_RETRY_POLICY.maxAttempts))
+    const [baseDelayText, setBaseDelayText] = useState(String(DEFAULT_RETRY_POLICY.baseDelayMs))
+    const [maxDelayText, setMaxDelayText] = useState(String(DEFAULT_RETRY_POLICY.maxDelayMs))
     const [showAddForm, setShowAddForm] = useState(false)
+    const [editingId, setEditingId] = useState<string | null>(null)
     const [, setTick] = useState(0)
 
     const connections = connectionManager.getConnections()
@@ -36,15 +105,90 @@ export default function ConnectionDialog({ open, onClose, connectionManager }: C
 
     const forceUpdate = () => setTick((t) => t + 1)
 
+    const loadForm = (connection?: GatewayConnection) => {
+        const auth = connection?.auth ?? NO_AUTH
+        setName(connection?.name ?? '')
+        setUrl(connection?.url ?? '')
+        setJobManagerUrl(connection?.jobManagerUrl ?? '')
+        setAuthType(auth.type)
+        setUsername(auth.type === 'basic' ? auth.username : '')
+        setPassword(auth.type === 'basic' ? auth.password : '')
+        setToken(auth.type === 'bearer' ? auth.token : '')
+        setHeadersText(auth.type === 'headers' ? formatHeaders(auth.headers) : '')
+        const sessionDefaults = connection?.sessionDefaults ?? EMPTY_SESSION_DEFAULTS
+        setPropertiesText(formatProperties(sessionDefaults.properties))
+        setInitScript(sessionDefaults.initScript)
+        const retryPolicy = connection?.retryPolicy ?? DEFAULT_RETRY_POLICY
+        setMaxAttemptsText(String(retryPolicy.maxAttempts))
+        setBaseDelayText(String(retryPolicy.baseDelayMs))
+        setMaxDelayText(String(retryPolicy.maxDelayMs))
+    }
+
+    const buildAuth = (): GatewayAuth => {
+        switch (authType) {
+            case 'basic':
+                return { type: 'basic', username, password }
+            case 'bearer':
+                return { type: 'bearer', token: token.trim() }
+            case 'headers':
+                return { type: 'headers', headers: parseHeaders(headersText) }
+            default:
+                return NO_AUTH
+        }
+    }
+
+    const buildSessionDefaults = (): SessionDefaults => ({
+        initScript: initScript.trim(),
+        properties: parseProperties(propertiesText),
+    })
+
+    const buildRetryPolicy = (): RetryPolicy => {
+        const baseDelayMs = parseCount(baseDelayText, 0, DEFAULT_RETRY_POLICY.baseDelayMs)
+        return {
+            maxAttempts: parseCount(maxAttemptsText, 1, DEFAULT_RETRY_POLICY.maxAttempts),
+            baseDelayMs,
+            maxDelayMs: Math.max(parseCount(maxDelayText, 0, DEFAULT_RETRY_POLICY.maxDelayMs), baseDelayMs),
+        }
+    }
+
+    const closeForm = () => {
+        loadForm()
+        setEditingId(null)
+        setShowAddForm(false)
+    }
+
     const handleAdd = () => {
         if (!name.trim()) return
-        connectionManager.addConnection(name.trim(), url.trim())
-        setName('')
-        setUrl('')
-        setShowAddForm(false)
+        if (editingId) {
+            connectionManager.updateConnection(
+                editingId,
+                name.trim(),
+                url.trim(),
+                buildAuth(),
+                buildSessionDefaults(),
+                jobManagerUrl.trim(),
+                buildRetryPolicy()
+            )
+        } else {
+            connectionManager.addConnection(
+                name.trim(),
+                url.trim(),
+                buildAuth(),
+                buildSessionDefaults(),
+                jobManagerUrl.trim(),
+                buildRetryPolicy()
+            )
+        }
+        closeForm()
         forceUpdate()
     }
 
+    const handleEdit = (connection: GatewayConnection) => {
+        loadForm(connection)
+        setEditingId(connection.id)
+        setShowAddForm(true)
+    }
+
     const handleRemove = (id: string) => {
         connectionManager.removeConnection(id)
         forceUpdate()
@@ -76,9 +220,14 @@ export default function ConnectionDialog({ open, onClose, connectionManager }: C
                         <ListItem
                             key={conn.id}
                             secondaryAction={
-                                <IconButton edge="end" onClick={() => handleRemove(conn.id)} size="small">
-                                    <DeleteIcon fontSize="small" />
-                                </IconButton>
+                                <>
+                                    <IconButton onClick={() => handleEdit(conn)} size="small">
+                                        <EditIcon fontSize="small" />
+                                    </IconButton>
+                                    <IconButton edge="end" onClick={() => handleRemove(conn.id)} size="small">
+                                        <DeleteIcon fontSize="small" />
+                                    </IconButton>
+                                </>
                             }
                             disablePadding
                         >
@@ -86,7 +235,10 @@ export default function ConnectionDialog({ open, onClose, connectionManager }: C
                                 <ListItemIcon sx={{ minWidth: 36 }}>
                                     <Radio edge="start" checked={activeId === conn.id} tabIndex={-1} size="small" />
                                 </ListItemIcon>
-                                <ListItemText primary={conn.name} secondary={conn.url || '(proxy)'} />
+                                <ListItemText
+                                    primary={conn.name}
+                                    secondary={`${conn.url || '(proxy)'}${conn.auth.type !== 'none' ? ` — ${AUTH_TYPE_LABELS[conn.auth.type]}` : ''}`}
+                                />
                             </ListItemButton>
                         </ListItem>
                     ))}
@@ -114,15 +266,153 @@ export default function ConnectionDialog({ open, onClose, connectionManager }: C
                             placeholder="Leave empty for same-origin (proxy)"
                             sx={{ mb: 1 }}
                         />
+                        <TextField
+                            label="JobManager REST URL (optional)"
+                            fullWidth
+                            size="small"
+                            value={jobManagerUrl}
+                            onChange={(e) => setJobManagerUrl(e.target.value)}
+                            onKeyDown={handleKeyDown}
+                            placeholder="e.g. http://localhost:8081"
+                            helperText="Enables live metrics, checkpoints and exceptions for jobs"
+                            sx={{ mb: 1 }}
+                        />
+                        <TextField
+                            select
+                            label="Authentication"
+                            fullWidth
+                            size="small"
+                            value={authType}
+                            onChange={(e) => setAuthType(e.target.value as AuthType)}
+                            sx={{ mb: 1 }}
+                        >
+                            {(Object.keys(AUTH_TYPE_LABELS) as AuthType[]).map((type) => (
+                                <MenuItem key={type} value={type}>
+                                    {AUTH_TYPE_LABELS[type]}
+                                </MenuItem>
+                            ))}
+                        </TextField>
+                        {authType === 'basic' && (
+                            <>
+                                <TextField
+                                    label="Username"
+                                    fullWidth
+                                    size="small"
+                                    value={username}
+                                    onChange={(e) => setUsername(e.target.value)}
+                                    sx={{ mb: 1 }}
+                                />
+                                <TextField
+                                    label="Password"
+                                    type="password"
+                                    fullWidth
+                                    size="small"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    sx={{ mb: 1 }}
+                                />
+                            </>
+                        )}
+                        {authType === 'bearer' && (
+                            <TextField
+                                label="Token"
+                                type="password"
+                                fullWidth
+                                size="small"
+                                value={token}
+                                onChange={(e) => setToken(e.target.value)}
+                                sx={{ mb: 1 }}
+                            />
+                        )}
+                        {authType === 'headers' && (
+                            <TextField
+                                label="Headers"
+                                fullWidth
+                                multiline
+                                minRows={2}
+                                size="small"
+                                value={headersText}
+                                onChange={(e) => setHeadersText(e.target.value)}
+                                placeholder={'X-Api-Key: abc123\nX-Tenant: analytics'}
+                                helperText="One header per line, as Name: value"
+                                sx={{ mb: 1 }}
+                            />
+                        )}
+                        {authType !== 'none' && (
+                            <Typography variant="caption" color="text.secondary">
+                                Credentials are stored in this browser&apos;s local storage.
+                            </Typography>
+                        )}
+                        <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>
+                            Retries
+                        </Typography>
+                        <Box sx={{ display: 'flex', gap: 1 }}>
+                            <TextField
+                                label="Attempts"
+                                type="number"
+                                size="small"
+                                value={maxAttemptsText}
+                                onChange={(e) => setMaxAttemptsText(e.target.value)}
+                                slotProps={{ htmlInput: { min: 1 } }}
+                                sx={{ flex: 1 }}
+                            />
+                            <TextField
+                                label="Base delay (ms)"
+                                type="number"
+                                size="small"
+                                value={baseDelayText}
+                                onChange={(e) => setBaseDelayText(e.target.value)}
+                                slotProps={{ htmlInput: { min: 0 } }}
+                                sx={{ flex: 1 }}
+                            />
+                            <TextField
+                                label="Max delay (ms)"
+                                type="number"
+                                size="small"
+                                value={maxDelayText}
+                                onChange={(e) => setMaxDelayText(e.target.value)}
+                                slotProps={{ htmlInput: { min: 0 } }}
+                                sx={{ flex: 1 }}
+                            />
+                        </Box>
+                        <Typography variant="caption" color="text.secondary">
+                            Attempts include the first request; 1 turns retries off. Statement submission is never
+                            retried.
+                        </Typography>
+                        <TextField
+                            label="Default session properties"
+                            fullWidth
+                            multiline
+                            minRows={2}
+                            size="small"
+                            value={propertiesText}
+                            onChange={(e) => setPropertiesText(e.target.value)}
+                            placeholder={'execution.runtime-mode=streaming\ntable.local-time-zone=UTC'}
+                            helperText="One property per line, as key=value; applied when a session is opened"
+                            sx={{ mt: 2, mb: 1 }}
+                        />
+                        <TextField
+                            label="Session init script"
+                            fullWidth
+                            multiline
+                            minRows={3}
+                            size="small"
+                            value={initScript}
+                            onChange={(e) => setInitScript(e.target.value)}
+                            placeholder={"CREATE CATALOG hive WITH ('type' = 'hive');\nADD JAR '/opt/jars/udfs.jar';"}
+                            helperText="Runs in every new session, including the catalog browser's"
+                            slotProps={{ htmlInput: { sx: { fontFamily: 'monospace', fontSize: '0.8rem' } } }}
+                            sx={{ mb: 1 }}
+                        />
                     </>
                 )}
             </DialogContent>
             <DialogActions>
                 {showAddForm ? (
                     <>
-                        <Button onClick={() => setShowAddForm(false)}>Cancel</Button>
+                        <Button onClick={closeForm}>Cancel</Button>
                         <Button onClick={handleAdd} variant="contained" disabled={!name.trim()}>
-                            Add
+                            {editingId ? 'Save' : 'Add'}
                         </Button>
                     </>
                 ) : (
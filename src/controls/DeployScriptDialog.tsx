@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+    Alert,
+    Box,
+    Button,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    FormControlLabel,
+    List,
+    ListItem,
+    ListItemText,
+    Radio,
+    RadioGroup,
+    TextField,
+    Typography,
+} from '@mui/material'
+import { ScriptDeployment } from '../schema/QueryInfo'
+import QueryParameter from '../schema/QueryParameter'
+import substituteParameters from '../sql/substituteParameters'
+import { getErrorMessage } from '../utils/Errors'
+
+type ScriptSource = 'tab' | 'uri'
+
+interface DeployScriptDialogProps {
+    open: boolean
+    onClose: () => void
+    script: string
+    parameters: QueryParameter[]
+    deployments: ScriptDeployment[]
+    onDeploy: (request: { script?: string; scriptUri?: string }) => Promise<string>
+}
+
+export default function DeployScriptDialog({
+    open,
+    onClose,
+    script,
+    parameters,
+    deployments,
+    onDeploy,
+}: DeployScriptDialogProps) {
+    const [source, setSource] = useState<ScriptSource>('tab')
+    const [scriptUri, setScriptUri] = useState('')
+    const [isDeploying, setIsDeploying] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [clusterId, setClusterId] = useState<string | null>(null)
+
+    // Start fresh every time the dialog opens
+    useEffect(() => {
+        if (open) {
+            setError(null)
+            setClusterId(null)
+            setIsDeploying(false)
+        }
+    }, [open])
+
+    const trimmedScript = script.trim()
+    // Preview what will be submitted: the tab's parameters filled in, as a run would
+    const substituted = useMemo(() => {
+        try {
+            return { text: substituteParameters(trimmedScript, parameters), error: null }
+        } catch (err) {
+            return { text: trimmedScript, error: getErrorMessage(err) }
+        }
+    }, [trimmedScript, parameters])
+    const canDeploy = source === 'tab' ? !!trimmedScript && !substituted.error : !!scriptUri.trim()
+
+    const handleDeploy = async () => {
+        setIsDeploying(true)
+        setError(null)
+        setClusterId(null)
+        try {
+            const id = await onDeploy(source === 'tab' ? { script: trimmedScript } : { scriptUri: scriptUri.trim() })
+            setClusterId(id)
+        } catch (err) {
+            setError(getErrorMessage(err))
+        } finally {
+            setIsDeploying(false)
+        }
+    }
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+            <DialogTitle>Deploy as Application</DialogTitle>
+            <DialogContent>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                    Submits the whole script to the gateway, which deploys it as a Flink application-mode cluster.
+                </Typography>
+                <RadioGroup value={source} onChange={(e) => setSource(e.target.value as ScriptSource)}>
+                    <FormControlLabel
+                        value="tab"
+                        control={<Radio size="small" />}
+                        label={<Typography variant="body2">Current tab script</Typography>}
+                    />
+                    <FormControlLabel
+                        value="uri"
+                        control={<Radio size="small" />}
+                        label={<Typography variant="body2">Script URI</Typography>}
+                    />
+                </RadioGroup>
+
+                {source === 'tab' ? (
+                    <>
+                        {substituted.error && (
+                            <Alert severity="warning" sx={{ mb: 1 }}>
+                                {substituted.error}
+                            </Alert>
+                        )}
+                        <Box
+                            component="pre"
+                            sx={{
+                                m: 0,
+                                p: 1,
+                                maxHeight: 160,
+                                overflow: 'auto',
+                                fontSize: '0.75rem',
+                                bgcolor: 'action.hover',
+                                borderRadius: 1,
+                            }}
+                        >
+                            {substituted.text || '(empty script)'}
+                        </Box>
+                    </>
+                ) : (
+                    <TextField
+                        label="Script URI"
+                        fullWidth
+                        size="small"
+                        value={scriptUri}
+                        onChange={(e) => setScriptUri(e.target.value)}
+                        placeholder="e.g. s3://bucket/pipelines/orders.sql"
+                        sx={{ mt: 1 }}
+                    />
+                )}
+
+                {error && (
+                    <Alert severity="error" sx={{ mt: 2, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                        {error}
+                    </Alert>
+                )}
+                {clusterId && (
+                    <Alert severity="success" sx={{ mt: 2 }}>
+                        Deployed to cluster <strong>{clusterId}</strong>
+                    </Alert>
+                )}
+
+                {deployments.length > 0 && (
+                    <>
+                        <Typography variant="subtitle2" sx={{ mt: 2 }}>
+                            Previous deployments from this tab
+                        </Typography>
+                        <List dense disablePadding>
+                            {[...deployments].reverse().map((d) => (
+                                <ListItem key={`${d.clusterId}-${d.deployedAt}`} disableGutters>
+                                    <ListItemText
+                                        primary={d.clusterId}
+                                        secondary={`${new Date(d.deployedAt).toLocaleString()}${d.scriptUri ? ` — ${d.scriptUri}` : ''}`}
+                                    />
+                                </ListItem>
+                            ))}
+                        </List>
+                    </>
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onClose}>Close</Button>
+                <Button
+                    onClick={handleDeploy}
+                    variant="contained"
+                    disabled={!canDeploy || isDeploying}
+                    startIcon={isDeploying ? <CircularProgress size={14} /> : undefined}
+                >
+                    Deploy
+                </Button>
+            </DialogActions>
+        </Dialog>
+    )
+}
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react'
+import { Box, Chip, IconButton, ToggleButton, ToggleButtonGroup, Tooltip, Typography } from '@mui/material'
+import ChevronRightIcon from '@mui/icons-material/ChevronRight'
+import ContentCopyIcon from '@mui/icons-material/ContentCopy'
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore'
+import parseExplainPlan, { ExplainSection, PlanNode } from '../sql/parseExplainPlan'
+
+const RAW_VIEW = '__raw__'
+// Shown first: the physical plan carries the changelog modes and costs EXPLAIN was asked for
+const PREFERRED_SECTION = 'Optimized Physical Plan'
+// Already shown as chips on the node
+const HIDDEN_ATTRIBUTES = new Set(['changelogMode', 'upsertKeys', 'upsertKey'])
+const COPY_TOOLTIPS = { idle: 'Copy plan', copied: 'Copied', failed: 'Copy failed: clipboard not available' }
+
+interface ExplainViewProps {
+    text: string
+}
+
+function formatRowCount(rowCount: number): string {
+    return rowCount >= 1e6 ? rowCount.toExponential(1) : rowCount.toLocaleString()
+}
+
+function PlanTreeNode({ node, depth }: { node: PlanNode; depth: number }) {
+    const [expanded, setExpanded] = useState(true)
+    const retracting = node.changelogMode?.some((kind) => kind !== 'I' && kind !== 'NONE') ?? false
+    const attributes = node.attributes
+        .filter(([key]) => !HIDDEN_ATTRIBUTES.has(key))
+        .map(([key, value]) => (key ? `${key}=${value}` : value))
+        .join(', ')
+
+    return (
+        <Box>
+            <Box
+                sx={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 0.5,
+                    pl: depth * 2,
+                    py: 0.25,
+                    bgcolor: node.stateful ? 'action.selected' : undefined,
+                }}
+            >
+                <IconButton
+                    size="small"
+                    onClick={() => setExpanded((e) => !e)}
+                    sx={{ visibility: node.children.length > 0 ? 'visible' : 'hidden', p: 0 }}
+                >
+                    {expanded ? <ExpandMoreIcon fontSize="small" /> : <ChevronRightIcon fontSize="small" />}
+                </IconButton>
+                <Typography variant="body2" sx={{ fontWeight: 600, fontFamily: 'monospace' }}>
+                    {node.operator}
+                </Typography>
+                {node.stateful && <Chip size="small" color="secondary" label="state" />}
+                {node.changelogMode && (
+                    <Tooltip title={retracting ? 'Emits updates or deletes' : 'Insert-only'}>
+                        <Chip
+                            size="small"
+                            variant="outlined"
+                            color={retracting ? 'warning' : 'default'}
+                            label={node.changelogMode.join(',')}
+                        />
+                    </Tooltip>
+                )}
+                {node.upsertKeys && (
+                    <Chip size="small" variant="outlined" color="info" label={`upsert key ${node.upsertKeys}`} />
+                )}
+                {node.rowCount !== null && (
+                    <Tooltip title={node.cumulativeCost ? `Cumulative cost ${node.cumulativeCost}` : ''}>
+                        <Typography variant="caption" color="text.secondary">
+                            ~{formatRowCount(node.rowCount)} rows
+                        </Typography>
+                    </Tooltip>
+                )}
+                <Tooltip title={node.text} slotProps={{ tooltip: { sx: { fontFamily: 'monospace' } } }}>
+                    <Typography
+                        variant="caption"
+                        color="text.secondary"
+                        noWrap
+                        sx={{ flex: 1, minWidth: 0, fontFamily: 'monospace' }}
+                    >
+                        {attributes}
+                    </Typography>
+                </Tooltip>
+            </Box>
+            {expanded && node.children.map((child, i) => <PlanTreeNode key={i} node={child} depth={depth + 1} />)}
+        </Box>
+    )
+}
+
+function StreamGraph({ section }: { section: ExplainSection }) {
+    const nodes = section.streamGraph ?? []
+    const byId = new Map(nodes.map((node) => [node.id, node]))
+    return (
+        <Box>
+            {nodes.map((node) => (
+                <Box key={node.id} sx={{ py: 0.5, borderBottom: 1, borderColor: 'divider' }}>
+                    <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                        <strong>#{node.id}</strong> {node.type}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                        {node.pact} · parallelism {node.parallelism}
+                        {node.predecessors.length > 0 &&
+                            ` · from ${node.predecessors
+                                .map((p) => `#${p.id}${byId.has(p.id) ? '' : '?'} (${p.shipStrategy})`)
+                                .join(', ')}`}
+                    </Typography>
+                </Box>
+            ))}
+        </Box>
+    )
+}
+
+/**
+ * EXPLAIN output as operator trees, one per plan section, with changelog modes,
+ * upsert keys and estimated row counts; operators that keep state are highlighted.
+ */
+export default function ExplainView({ text }: ExplainViewProps) {
+    const plan = useMemo(() => parseExplainPlan(text), [text])
+    const [selected, setSelected] = useState<string | null>(null)
+    const [copyStatus, setCopyStatus] = useState<keyof typeof COPY_TOOLTIPS>('idle')
+
+    const preferred = plan.sections.find((s) => s.title === PREFERRED_SECTION) ?? plan.sections[0]
+    const current = selected ?? preferred?.title ?? RAW_VIEW
+    const section = plan.sections.find((s) => s.title === current)
+    const statefulCount = (nodes: PlanNode[]): number =>
+        nodes.reduce((sum, node) => sum + (node.stateful ? 1 : 0) + statefulCount(node.children), 0)
+
+    const handleCopy = () => {
+        // navigator.clipboard is undefined on plain http and writes can be refused, so both end up as a rejection
+        Promise.resolve()
+            .then(() => navigator.clipboard.writeText(section?.text ?? text))
+            .then(
+                () => setCopyStatus('copied'),
+                () => setCopyStatus('failed')
+            )
+    }
+
+    return (
+        <Box sx={{ flex: 1, minHeight: 0, display: 'flex', flexDirection: 'column' }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, px: 1, py: 0.5 }}>
+                <ToggleButtonGroup
+                    size="small"
+                    exclusive
+                    value={current}
+                    onChange={(_, value) => value && setSelected(value)}
+                    sx={{ '& .MuiToggleButton-root': { py: 0, px: 1, fontSize: '0.7rem', textTransform: 'none' } }}
+                >
+                    {plan.sections.map((s) => (
+                        <ToggleButton key={s.title} value={s.title}>
+                            {s.title}
+                        </ToggleButton>
+                    ))}
+                    <ToggleButton value={RAW_VIEW}>Raw</ToggleButton>
+                </ToggleButtonGroup>
+                {section && section.roots.length > 0 && (
+                    <Typography variant="caption" color="text.secondary">
+                        {statefulCount(section.roots)} stateful operator(s)
+                    </Typography>
+                )}
+                <Box sx={{ flex: 1 }} />
+                <Tooltip title={COPY_TOOLTIPS[copyStatus]} onClose={() => setCopyStatus('idle')}>
+                    <IconButton size="small" onClick={handleCopy}>
+                        <ContentCopyIcon fontSize="small" />
+                    </IconButton>
+                </Tooltip>
+            </Box>
+            <Box sx={{ flex: 1, minHeight: 0, overflow: 'auto', px: 1 }}>
+                {!section ? (
+                    <Box component="pre" sx={{ m: 0, fontSize: '0.75rem' }}>
+                        {text}
+                    </Box>
+                ) : section.streamGraph ? (
+                    <StreamGraph section={section} />
+                ) : (
+                    section.roots.map((root, i) => <PlanTreeNode key={i} node={root} depth={0} />)
+                )}
+            </Box>
+        </Box>
+    )
+}
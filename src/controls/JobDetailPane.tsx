@@ -0,0 +1,343 @@
+import React, { useEffect, useState } from 'react'
+import {
+    Alert,
+    Box,
+    Chip,
+    Drawer,
+    IconButton,
+    Paper,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    Tooltip,
+    Typography,
+} from '@mui/material'
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward'
+import CloseIcon from '@mui/icons-material/Close'
+import {
+    BackPressureLevel,
+    CheckpointingStatistics,
+    JobDetails,
+    JobExceptions,
+    JobVertexDetails,
+} from '../api/JobManagerTypes'
+import GatewayConnection from '../schema/GatewayConnection'
+import { getErrorMessage } from '../utils/Errors'
+
+const PANEL_WIDTH = 760
+const REFRESH_INTERVAL_MS = 3000
+const CHECKPOINT_HISTORY_ROWS = 10
+const RUNNING_JOB_STATES = ['CREATED', 'INITIALIZING', 'RUNNING', 'RESTARTING', 'FAILING', 'CANCELLING']
+
+const BACK_PRESSURE_COLORS: Record<BackPressureLevel, 'success' | 'warning' | 'error'> = {
+    ok: 'success',
+    low: 'warning',
+    high: 'error',
+}
+
+interface JobDetailPaneProps {
+    open: boolean
+    onClose: () => void
+    connection: GatewayConnection | undefined
+    jobId: string | null
+}
+
+interface JobSnapshot {
+    job: JobDetails | null
+    checkpoints: CheckpointingStatistics | null
+    exceptions: JobExceptions | null
+    backPressure: Record<string, BackPressureLevel>
+}
+
+const EMPTY_SNAPSHOT: JobSnapshot = { job: null, checkpoints: null, exceptions: null, backPressure: {} }
+
+function formatCount(value: number | undefined): string {
+    return value === undefined ? '—' : value.toLocaleString()
+}
+
+function formatBytes(bytes: number): string {
+    const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB']
+    let value = bytes
+    let unit = 0
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024
+        unit++
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`
+}
+
+function formatDuration(ms: number): string {
+    if (ms < 0) return '—'
+    if (ms < 1000) return `${ms}ms`
+    const totalSeconds = Math.floor(ms / 1000)
+    if (totalSeconds < 60) return `${totalSeconds}s`
+    const hours = Math.floor(totalSeconds / 3600)
+    const minutes = Math.floor((totalSeconds % 3600) / 60)
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${totalSeconds % 60}s`
+}
+
+function formatTime(timestamp: number): string {
+    return timestamp > 0 ? new Date(timestamp).toLocaleString() : '—'
+}
+
+/** Vertices from sources to sinks, following the job plan's input edges. */
+function orderVertices(job: JobDetails): JobVertexDetails[] {
+    const inputs = new Map(job.plan.nodes.map((node) => [node.id, (node.inputs ?? []).map((input) => input.id)]))
+    const ordered: JobVertexDetails[] = []
+    const placed = new Set<string>()
+    let remaining = job.vertices
+    while (remaining.length > 0) {
+        const ready = remaining.filter((v) => (inputs.get(v.id) ?? []).every((id) => placed.has(id)))
+        // A plan that doesn't match the vertices (or has a cycle) keeps the JobManager's order
+        const next = ready.length > 0 ? ready : remaining
+        next.forEach((v) => placed.add(v.id))
+        ordered.push(...next)
+        remaining = remaining.filter((v) => !placed.has(v.id))
+    }
+    return ordered
+}
+
+/**
+ * Live view of a job from the JobManager REST API: the vertex graph with parallelism,
+ * records and back pressure, checkpoint history and the exceptions that failed it.
+ */
+export default function JobDetailPane({ open, onClose, connection, jobId }: JobDetailPaneProps) {
+    const [snapshot, setSnapshot] = useState<JobSnapshot>(EMPTY_SNAPSHOT)
+    const [error, setError] = useState<string | null>(null)
+    const [expandedException, setExpandedException] = useState<number | null>(null)
+
+    const jobManager = connection?.jobManager ?? null
+
+    useEffect(() => {
+        setSnapshot(EMPTY_SNAPSHOT)
+        setError(null)
+        setExpandedException(null)
+        if (!open || !jobManager || !jobId) return
+
+        const controller = new AbortController()
+        const { signal } = controller
+
+        const refresh = async () => {
+            try {
+                const job = await jobManager.getJob(jobId, signal)
+                const [checkpoints, exceptions, ...levels] = await Promise.all([
+                    // Batch jobs have no checkpoints; the endpoint fails for them
+                    jobManager.getCheckpoints(jobId, signal).catch(() => null),
+                    jobManager.getExceptions(jobId, signal).catch(() => null),
+                    ...(RUNNING_JOB_STATES.includes(job.state)
+                        ? job.vertices.map((v) =>
+                              jobManager
+                                  .getVertexBackPressure(jobId, v.id, signal)
+                                  .then((bp) => bp.backpressureLevel ?? bp['backpressure-level'])
+                                  .catch(() => undefined)
+                          )
+                        : []),
+                ])
+                if (signal.aborted) return
+                const backPressure: Record<string, BackPressureLevel> = {}
+                levels.forEach((level, i) => {
+                    if (level) backPressure[job.vertices[i].id] = level
+                })
+                setSnapshot({ job, checkpoints, exceptions, backPressure })
+                setError(null)
+            } catch (err) {
+                if (!signal.aborted) setError(getErrorMessage(err))
+            }
+        }
+
+        // The next refresh is scheduled once the previous one is done, so a slow JobManager doesn't get
+        // overlapping rounds and an older snapshot can't land after a newer one
+        let timer: ReturnType<typeof setTimeout> | null = null
+        const poll = async () => {
+            await refresh()
+            if (!signal.aborted) timer = setTimeout(poll, REFRESH_INTERVAL_MS)
+        }
+        poll()
+        return () => {
+            if (timer) clearTimeout(timer)
+            controller.abort()
+        }
+    }, [open, jobManager, jobId])
+
+    const { job, checkpoints, exceptions, backPressure } = snapshot
+    const exceptionEntries = exceptions?.exceptionHistory?.entries ?? []
+
+    return (
+        <Drawer anchor="right" open={open} onClose={onClose} sx={{ '& .MuiDrawer-paper': { width: PANEL_WIDTH } }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', px: 2, py: 1, borderBottom: 1, borderColor: 'divider' }}>
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                    <Typography variant="subtitle1" noWrap>
+                        {job?.name ?? 'Job'}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                        {jobId}
+                    </Typography>
+                </Box>
+                <IconButton size="small" onClick={onClose}>
+                    <CloseIcon fontSize="small" />
+                </IconButton>
+            </Box>
+
+            <Box sx={{ p: 2, display: 'flex', flexDirection: 'column', gap: 2, overflow: 'auto' }}>
+                {!jobManager && (
+                    <Alert severity="info">
+                        Set a JobManager REST URL on this connection to see live metrics for its jobs.
+                    </Alert>
+                )}
+                {error && (
+                    <Alert severity="error" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                        {error}
+                    </Alert>
+                )}
+
+                {job && (
+                    <Typography variant="body2">
+                        <strong>{job.state}</strong> · started {formatTime(job['start-time'])} · running for{' '}
+                        {formatDuration(job.duration)}
+                    </Typography>
+                )}
+
+                {/* Vertex graph */}
+                {job && (
+                    <Box>
+                        <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                            Vertices
+                        </Typography>
+                        {orderVertices(job).map((vertex, i) => (
+                            <React.Fragment key={vertex.id}>
+                                {i > 0 && (
+                                    <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+                                        <ArrowDownwardIcon fontSize="small" color="disabled" />
+                                    </Box>
+                                )}
+                                <Paper variant="outlined" sx={{ p: 1 }}>
+                                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                                        <Tooltip title={vertex.name}>
+                                            <Typography variant="body2" noWrap sx={{ flex: 1, fontWeight: 500 }}>
+                                                {vertex.name}
+                                            </Typography>
+                                        </Tooltip>
+                                        {backPressure[vertex.id] && (
+                                            <Chip
+                                                size="small"
+                                                variant="outlined"
+                                                color={BACK_PRESSURE_COLORS[backPressure[vertex.id]]}
+                                                label={`Back pressure: ${backPressure[vertex.id]}`}
+                                            />
+                                        )}
+                                        <Chip size="small" label={vertex.status} />
+                                    </Box>
+                                    <Typography variant="caption" color="text.secondary">
+                                        Parallelism {vertex.parallelism} · records in{' '}
+                                        {formatCount(vertex.metrics['read-records'])} · records out{' '}
+                                        {formatCount(vertex.metrics['write-records'])}
+                                    </Typography>
+                                </Paper>
+                            </React.Fragment>
+                        ))}
+                    </Box>
+                )}
+
+                {/* Checkpoints */}
+                {checkpoints && (
+                    <Box>
+                        <Typography variant="subtitle2">Checkpoints</Typography>
+                        <Typography variant="caption" color="text.secondary">
+                            {checkpoints.counts.completed} completed · {checkpoints.counts.failed} failed ·{' '}
+                            {checkpoints.counts.in_progress} in progress · {checkpoints.counts.restored} restored
+                        </Typography>
+                        {checkpoints.history.length > 0 && (
+                            <Table size="small">
+                                <TableHead>
+                                    <TableRow>
+                                        <TableCell>ID</TableCell>
+                                        <TableCell>Status</TableCell>
+                                        <TableCell>Triggered</TableCell>
+                                        <TableCell>Duration</TableCell>
+                                        <TableCell>Size</TableCell>
+                                        <TableCell>Acknowledged</TableCell>
+                                    </TableRow>
+                                </TableHead>
+                                <TableBody>
+                                    {checkpoints.history.slice(0, CHECKPOINT_HISTORY_ROWS).map((checkpoint) => (
+                                        <TableRow key={checkpoint.id}>
+                                            <TableCell>
+                                                {checkpoint.id}
+                                                {checkpoint.is_savepoint ? ' (savepoint)' : ''}
+                                            </TableCell>
+                                            <TableCell>
+                                                <Tooltip title={checkpoint.failure_message ?? ''}>
+                                                    <Typography
+                                                        variant="body2"
+                                                        color={
+                                                            checkpoint.status === 'FAILED'
+                                                                ? 'error.main'
+                                                                : checkpoint.status === 'COMPLETED'
+                                                                  ? 'success.main'
+                                                                  : 'text.primary'
+                                                        }
+                                                    >
+                                                        {checkpoint.status}
+                                                    </Typography>
+                                                </Tooltip>
+                                            </TableCell>
+                                            <TableCell>{formatTime(checkpoint.trigger_timestamp)}</TableCell>
+                                            <TableCell>{formatDuration(checkpoint.end_to_end_duration)}</TableCell>
+                                            <TableCell>
+                                                {formatBytes(checkpoint.checkpointed_size ?? checkpoint.state_size)}
+                                            </TableCell>
+                                            <TableCell>
+                                                {checkpoint.num_acknowledged_subtasks}/{checkpoint.num_subtasks}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                    </Box>
+                )}
+
+                {/* Exceptions */}
+                {exceptions && (exceptionEntries.length > 0 || exceptions['root-exception']) && (
+                    <Box>
+                        <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                            Exceptions
+                        </Typography>
+                        {exceptionEntries.length === 0 && (
+                            <Box component="pre" sx={{ m: 0, fontSize: '0.75rem', maxHeight: 240, overflow: 'auto' }}>
+                                {exceptions['root-exception']}
+                            </Box>
+                        )}
+                        {exceptionEntries.map((entry, i) => (
+                            <Paper key={`${entry.timestamp}-${i}`} variant="outlined" sx={{ p: 1, mb: 1 }}>
+                                <Box
+                                    sx={{ cursor: 'pointer' }}
+                                    onClick={() => setExpandedException(expandedException === i ? null : i)}
+                                >
+                                    <Typography variant="body2" color="error.main" sx={{ wordBreak: 'break-word' }}>
+                                        {entry.exceptionName}
+                                    </Typography>
+                                    <Typography variant="caption" color="text.secondary">
+                                        {formatTime(entry.timestamp)}
+                                        {entry.taskName ? ` · ${entry.taskName}` : ''}
+                                        {entry.endpoint ? ` · ${entry.endpoint}` : ''}
+                                    </Typography>
+                                </Box>
+                                {expandedException === i && (
+                                    <Box
+                                        component="pre"
+                                        sx={{ m: 0, mt: 1, fontSize: '0.7rem', maxHeight: 320, overflow: 'auto' }}
+                                    >
+                                        {entry.stacktrace}
+                                    </Box>
+                                )}
+                            </Paper>
+                        ))}
+                    </Box>
+                )}
+            </Box>
+        </Drawer>
+    )
+}
@@ -0,0 +1,301 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import {
+    Alert,
+    Box,
+    Drawer,
+    FormControlLabel,
+    IconButton,
+    Link,
+    Menu,
+    MenuItem,
+    Switch,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    Tooltip,
+    Typography,
+} from '@mui/material'
+import CloseIcon from '@mui/icons-material/Close'
+import MoreVertIcon from '@mui/icons-material/MoreVert'
+import RefreshIcon from '@mui/icons-material/Refresh'
+import { StopJobMode } from '../api/FlinkQueryRunner'
+import ConnectionManager from '../schema/ConnectionManager'
+import Queries from '../schema/Queries'
+import QueryInfo, { LaunchedJob } from '../schema/QueryInfo'
+import JobsProvider, { JobInfo } from '../sql/JobsProvider'
+import { getErrorMessage } from '../utils/Errors'
+
+const PANEL_WIDTH = 720
+const REFRESH_INTERVAL_MS = 5000
+const TERMINAL_JOB_STATUSES = ['FINISHED', 'CANCELED', 'FAILED']
+
+const JOB_ACTIONS: { mode: StopJobMode; label: string }[] = [
+    { mode: 'stop', label: 'Cancel' },
+    { mode: 'savepoint', label: 'Stop with savepoint' },
+    { mode: 'drain', label: 'Stop with drain' },
+]
+
+const STATUS_COLORS: Record<string, string> = {
+    RUNNING: 'success.main',
+    FAILED: 'error.main',
+    FAILING: 'error.main',
+    CANCELED: 'text.secondary',
+    FINISHED: 'text.secondary',
+}
+
+interface JobsPanelProps {
+    open: boolean
+    onClose: () => void
+    connectionManager: ConnectionManager
+    queries: Queries
+    jobsProvider: JobsProvider
+    /** Open a job's live metrics; undefined when the connection has no JobManager URL. */
+    onShowJob?: (jobId: string) => void
+}
+
+/**
+ * Side panel listing the cluster's jobs from SHOW JOBS, refreshed while open. Jobs
+ * started from one of the tabs link back to that tab and the statement that ran them.
+ */
+export default function JobsPanel({
+    open,
+    onClose,
+    connectionManager,
+    queries,
+    jobsProvider,
+    onShowJob,
+}: JobsPanelProps) {
+    const [jobs, setJobs] = useState<JobInfo[]>([])
+    const [error, setError] = useState<string | null>(null)
+    const [savepoint, setSavepoint] = useState<{ jobId: string; path: string } | null>(null)
+    const [activeOnly, setActiveOnly] = useState(true)
+    const [menu, setMenu] = useState<{ anchor: HTMLElement; jobId: string } | null>(null)
+    const [stopping, setStopping] = useState<string | null>(null)
+
+    const connection = connectionManager.getActiveConnection()
+
+    // Only the latest load may update the list; older responses (e.g. from before a connection switch) are dropped
+    const loadIdRef = useRef(0)
+
+    const load = useCallback(async () => {
+        const loadConnection = jobsProvider.getConnection()
+        if (!loadConnection) return
+        const loadId = ++loadIdRef.current
+        const isStale = () => loadId !== loadIdRef.current || jobsProvider.getConnection() !== loadConnection
+        try {
+            const loaded = await jobsProvider.loadJobs()
+            if (isStale()) return
+            setJobs(loaded)
+            setError(null)
+        } catch (err) {
+            if (isStale()) return
+            setError(getErrorMessage(err))
+        }
+    }, [jobsProvider])
+
+    useEffect(() => {
+        if (!open) return
+        jobsProvider.setConnection(connection ?? null)
+        setJobs([])
+        setSavepoint(null)
+
+        // The next refresh is scheduled once the previous one is done, so slow SHOW JOBS calls don't pile up
+        let timer: ReturnType<typeof setTimeout> | null = null
+        let stopped = false
+        const poll = async () => {
+            await load()
+            if (!stopped) timer = setTimeout(poll, REFRESH_INTERVAL_MS)
+        }
+        poll()
+        return () => {
+            stopped = true
+            if (timer) clearTimeout(timer)
+            // Closes the panel's session; it is reopened the next time the panel opens
+            jobsProvider.setConnection(null)
+        }
+    }, [open, connection, jobsProvider, load])
+
+    const handleStop = async (jobId: string, mode: StopJobMode) => {
+        setMenu(null)
+        setStopping(jobId)
+        setError(null)
+        try {
+            const path = await jobsProvider.stopJob(jobId, mode)
+            if (path) setSavepoint({ jobId, path })
+        } catch (err) {
+            setError(getErrorMessage(err))
+        } finally {
+            setStopping(null)
+            await load()
+        }
+    }
+
+    // Jobs launched from this UI, by job id, with the tab that launched them
+    const launched = new Map<string, { tab: QueryInfo; job: LaunchedJob }>()
+    for (const tab of queries.getTabs()) {
+        for (const job of tab.launchedJobs ?? []) {
+            if (job.connectionId === connection?.id) launched.set(job.jobId, { tab, job })
+        }
+    }
+
+    const isActive = (job: JobInfo) => !TERMINAL_JOB_STATUSES.includes(job.status)
+    const visibleJobs = jobs
+        .filter((job) => !activeOnly || isActive(job))
+        .sort((a, b) => b.startTime.localeCompare(a.startTime))
+
+    return (
+        <Drawer anchor="right" open={open} onClose={onClose} sx={{ '& .MuiDrawer-paper': { width: PANEL_WIDTH } }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', px: 2, py: 1, borderBottom: 1, borderColor: 'divider' }}>
+                <Typography variant="subtitle1" sx={{ flex: 1 }}>
+                    Jobs
+                </Typography>
+                <Tooltip title="Refresh">
+                    <span>
+                        <IconButton size="small" onClick={load} disabled={!connection}>
+                            <RefreshIcon fontSize="small" />
+                        </IconButton>
+                    </span>
+                </Tooltip>
+                <IconButton size="small" onClick={onClose}>
+                    <CloseIcon fontSize="small" />
+                </IconButton>
+            </Box>
+
+            <Box sx={{ p: 2, display: 'flex', flexDirection: 'column', gap: 1, minHeight: 0, flex: 1 }}>
+                {!connection && <Alert severity="info">No gateway connection selected.</Alert>}
+                {error && (
+                    <Alert severity="error" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                        {error}
+                    </Alert>
+                )}
+                {savepoint && (
+                    <Alert severity="success" onClose={() => setSavepoint(null)} sx={{ wordBreak: 'break-all' }}>
+                        Savepoint of job {savepoint.jobId}:{' '}
+                        <Box component="span" sx={{ fontFamily: 'monospace' }}>
+                            {savepoint.path}
+                        </Box>
+                    </Alert>
+                )}
+
+                <FormControlLabel
+                    control={
+                        <Switch size="small" checked={activeOnly} onChange={(e) => setActiveOnly(e.target.checked)} />
+                    }
+                    label={<Typography variant="body2">Active jobs only</Typography>}
+                />
+
+                <Box sx={{ flex: 1, minHeight: 0, overflow: 'auto' }}>
+                    <Table size="small" stickyHeader>
+                        <TableHead>
+                            <TableRow>
+                                <TableCell>Job</TableCell>
+                                <TableCell>Status</TableCell>
+                                <TableCell>Started</TableCell>
+                                <TableCell>Launched from</TableCell>
+                                <TableCell sx={{ width: 40 }} />
+                            </TableRow>
+                        </TableHead>
+                        <TableBody>
+                            {visibleJobs.map((job) => {
+                                const origin = launched.get(job.jobId)
+                                return (
+                                    <TableRow key={job.jobId}>
+                                        <TableCell sx={{ maxWidth: 220 }}>
+                                            {onShowJob ? (
+                                                <Link
+                                                    component="button"
+                                                    variant="body2"
+                                                    sx={{ textAlign: 'left', wordBreak: 'break-word' }}
+                                                    onClick={() => onShowJob(job.jobId)}
+                                                >
+                                                    {job.jobName}
+                                                </Link>
+                                            ) : (
+                                                <Typography variant="body2" sx={{ wordBreak: 'break-word' }}>
+                                                    {job.jobName}
+                                                </Typography>
+                                            )}
+                                            <Typography
+                                                variant="caption"
+                                                color="text.secondary"
+                                                sx={{ fontFamily: 'monospace' }}
+                                            >
+                                                {job.jobId}
+                                            </Typography>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Typography
+                                                variant="body2"
+                                                color={STATUS_COLORS[job.status] ?? 'text.primary'}
+                                            >
+                                                {job.status}
+                                            </Typography>
+                                        </TableCell>
+                                        <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                                            {job.startTime.replace('T', ' ')}
+                                        </TableCell>
+                                        <TableCell sx={{ maxWidth: 200 }}>
+                                            {origin ? (
+                                                <Tooltip
+                                                    title={origin.job.statement}
+                                                    slotProps={{
+                                                        tooltip: {
+                                                            sx: { whiteSpace: 'pre-wrap', fontFamily: 'monospace' },
+                                                        },
+                                                    }}
+                                                >
+                                                    <Link
+                                                        component="button"
+                                                        variant="body2"
+                                                        onClick={() => {
+                                                            queries.setCurrentQuery(origin.tab.id)
+                                                            onClose()
+                                                        }}
+                                                    >
+                                                        {origin.tab.title}
+                                                    </Link>
+                                                </Tooltip>
+                                            ) : (
+                                                <Typography variant="body2" color="text.secondary">
+                                                    —
+                                                </Typography>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            <IconButton
+                                                size="small"
+                                                disabled={!isActive(job) || stopping !== null}
+                                                onClick={(e) => setMenu({ anchor: e.currentTarget, jobId: job.jobId })}
+                                            >
+                                                <MoreVertIcon fontSize="small" />
+                                            </IconButton>
+                                        </TableCell>
+                                    </TableRow>
+                                )
+                            })}
+                            {connection && visibleJobs.length === 0 && (
+                                <TableRow>
+                                    <TableCell colSpan={5}>
+                                        <Typography variant="body2" color="text.secondary">
+                                            {activeOnly ? 'No active jobs' : 'No jobs'}
+                                        </Typography>
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                        </TableBody>
+                    </Table>
+                </Box>
+            </Box>
+
+            <Menu anchorEl={menu?.anchor} open={!!menu} onClose={() => setMenu(null)}>
+                {JOB_ACTIONS.map(({ mode, label }) => (
+                    <MenuItem key={mode} dense onClick={() => menu && handleStop(menu.jobId, mode)}>
+                        {label}
+                    </MenuItem>
+                ))}
+            </Menu>
+        </Drawer>
+    )
+}
@@ -1,28 +1,109 @@
-import React, { useEffect, useRef, useState } from 'react'
-import { Box, CircularProgress, IconButton, Toolbar, Tooltip, Typography, useMediaQuery } from '@mui/material'
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import {
+    Box,
+    CircularProgress,
+    IconButton,
+    Menu,
+    MenuItem,
+    Toolbar,
+    Tooltip,
+    Typography,
+    useMediaQuery,
+} from '@mui/material'
 import PlayArrowIcon from '@mui/icons-material/PlayArrow'
 import StopIcon from '@mui/icons-material/Stop'
+import ArrowDropDownIcon from '@mui/icons-material/ArrowDropDown'
 import MenuIcon from '@mui/icons-material/Menu'
 import StorageIcon from '@mui/icons-material/Storage'
-import FlinkQueryRunner, { QueryState, QueryRunnerCallbacks } from '../api/FlinkQueryRunner'
+import RocketLaunchIcon from '@mui/icons-material/RocketLaunch'
+import TuneIcon from '@mui/icons-material/Tune'
+import SettingsIcon from '@mui/icons-material/Settings'
+import ListAltIcon from '@mui/icons-material/ListAlt'
+import WorkIcon from '@mui/icons-material/Work'
+import AccountTreeIcon from '@mui/icons-material/AccountTree'
+import PlaylistPlayIcon from '@mui/icons-material/PlaylistPlay'
+import FlinkQueryRunner, {
+    OperationCheckpoint,
+    OperationStatusTiming,
+    QueryState,
+    QueryRunnerCallbacks,
+    StatementResult,
+    StopJobMode,
+} from '../api/FlinkQueryRunner'
 import { ColumnInfo, RowData } from '../api/FlinkSqlGatewayTypes'
+import { ChangelogStats } from '../api/MaterializedResult'
+import { RetryAttempt } from '../api/RetryPolicy'
 import ConnectionManager from '../schema/ConnectionManager'
-import GatewayConnection from '../schema/GatewayConnection'
+import GatewayConnection, { SessionInitFailure, SessionReplayReport } from '../schema/GatewayConnection'
 import Queries from '../schema/Queries'
-import QueryInfo from '../schema/QueryInfo'
+import QueryInfo, { RunningOperation, ScriptDeployment } from '../schema/QueryInfo'
+import SchemaProvider from '../sql/SchemaProvider'
+import JobsProvider from '../sql/JobsProvider'
 import { getErrorMessage } from '../utils/Errors'
 import splitStatements from '../sql/splitStatements'
+import { explainStatement } from '../sql/parseExplainPlan'
+import substituteParameters, { findParameters } from '../sql/substituteParameters'
 import QueryEditorPane, { EditorHandle } from './QueryEditorPane'
 import ResizableSplitter, { SPLITTER_HEIGHT } from './ResizableSplitter'
-import ResultSet from './ResultSet'
+import RowLimitSettings from './RowLimitSettings'
+import ResultSet, { ResultViewMode } from './ResultSet'
+import QueryParameters, { PARAMETERS_BAR_HEIGHT } from './QueryParameters'
+import AutoRefreshSettings from './AutoRefreshSettings'
+import DeployScriptDialog from './DeployScriptDialog'
+import RunWithDialog from './RunWithDialog'
+import SessionConfigPanel from './SessionConfigPanel'
+import SessionBrowser from './SessionBrowser'
+import JobsPanel from './JobsPanel'
+import JobDetailPane from './JobDetailPane'
+import ExecutionPreset from '../schema/ExecutionPreset'
 
 const TOOLBAR_HEIGHT = 48
+// Launched jobs remembered per tab for the jobs panel
+const MAX_LAUNCHED_JOBS = 50
+// Checkpoints arrive with every result page; after a reload a slightly older one resumes just as well
+const CHECKPOINT_SAVE_INTERVAL_MS = 2_000
+// How often the auto-refresh schedule checks whether a run is due
+const AUTO_REFRESH_CHECK_MS = 1_000
 
 type SessionState = 'none' | 'connecting' | 'connected' | 'error'
 
+function describeSession(connection: GatewayConnection, initFailures: SessionInitFailure[]): string {
+    const active = `Session active — ${describeGateway(connection)}`
+    if (initFailures.length === 0) return active
+    const failures = initFailures.map(({ statement, error }) => `✗ ${statement} — ${error}`)
+    return [active, `Init script: ${initFailures.length} statement(s) failed`, ...failures].join('\n')
+}
+
+function describeReplay(report: SessionReplayReport): string {
+    const lines = [
+        `Session expired and was recreated — restored ${report.restored.length} of ` +
+            `${report.restored.length + report.failed.length} session statements`,
+        ...report.restored.map((statement) => `  ✓ ${statement}`),
+        ...report.failed.map(({ statement, error }) => `  ✗ ${statement} — ${error}`),
+    ]
+    return lines.join('\n')
+}
+
+const STOP_JOB_OPTIONS: { mode: StopJobMode; label: string }[] = [
+    { mode: 'stop', label: 'Stop' },
+    { mode: 'savepoint', label: 'Stop with savepoint' },
+    { mode: 'drain', label: 'Stop with drain' },
+]
+
+// One-off settings from the "Run with…" dialog
+type ExecutionSettings = Pick<ExecutionPreset, 'timeoutMs' | 'config'>
+
+function describeGateway(connection: GatewayConnection): string {
+    const info = connection.getGatewayInfo()
+    const version = `REST ${connection.client.getApiVersion()}`
+    return info ? `${info.productName} ${info.version} (${version})` : version
+}
+
 interface QueryCellProps {
     queries: Queries
     connectionManager: ConnectionManager
+    schemaProvider: SchemaProvider
+    jobsProvider: JobsProvider
     height: number
     onToggleDrawer: () => void
     onOpenConnectionDialog: () => void
@@ -31,6 +112,8 @@ interface QueryCellProps {
 export default function QueryCell({
     queries,
     connectionManager,
+    schemaProvider,
+    jobsProvider,
     height,
     onToggleDrawer,
     onOpenConnectionDialog,
@@ -42,16 +125,41 @@ export default function QueryCell({
     const [queryState, setQueryState] = useState<QueryState>('IDLE')
     const [columns, setColumns] = useState<ColumnInfo[]>([])
     const [rows, setRows] = useState<RowData[]>([])
+    const [changelogRows, setChangelogRows] = useState<RowData[]>([])
+    const [droppedChangelogRows, setDroppedChangelogRows] = useState(0)
+    const [changelogStats, setChangelogStats] = useState<ChangelogStats | null>(null)
+    const [resultViewMode, setResultViewMode] = useState<ResultViewMode>('table')
     const [error, setError] = useState<string | null>(null)
     const [warning, setWarning] = useState<string | null>(null)
+    const [retry, setRetry] = useState<RetryAttempt | null>(null)
+    const [operationStatus, setOperationStatus] = useState<OperationStatusTiming[]>([])
     const [jobId, setJobId] = useState<string | null>(null)
+    const [savepointPath, setSavepointPath] = useState<string | null>(null)
+    const [stopMenuAnchor, setStopMenuAnchor] = useState<HTMLElement | null>(null)
     const [isQueryResult, setIsQueryResult] = useState<boolean>(true)
     const [sessionState, setSessionState] = useState<SessionState>('none')
     const [sessionError, setSessionError] = useState<string | null>(null)
+    const [deployDialogOpen, setDeployDialogOpen] = useState(false)
+    const [runWithDialogOpen, setRunWithDialogOpen] = useState(false)
+    const [sessionConfigOpen, setSessionConfigOpen] = useState(false)
+    const [sessionBrowserOpen, setSessionBrowserOpen] = useState(false)
+    const [jobsPanelOpen, setJobsPanelOpen] = useState(false)
+    const [jobDetailId, setJobDetailId] = useState<string | null>(null)
     const [statementProgress, setStatementProgress] = useState<{ current: number; total: number } | null>(null)
+    const [statementResults, setStatementResults] = useState<StatementResult[]>([])
+    const [previousResult, setPreviousResult] = useState<{ columns: ColumnInfo[]; rows: RowData[] } | null>(null)
+    const [parameterNames, setParameterNames] = useState<string[]>(() => findParameters(currentQuery.query ?? ''))
+    // Index of the runner's first statement in the script; non-zero after resuming on a recreated session
+    const statementOffsetRef = useRef(0)
     const [activeConnectionId, setActiveConnectionId] = useState<string | null>(
         connectionManager.getActiveConnectionId()
     )
+    // Bumped on every connection change, so edits to the active connection (same id) reopen its session
+    const [connectionRevision, setConnectionRevision] = useState(0)
+    // What was restored the last time this tab's session had to be recreated
+    const [sessionNotice, setSessionNotice] = useState<string | null>(null)
+    // A statement this tab was running before the page was reloaded, still alive on the gateway
+    const [orphanedOperation, setOrphanedOperation] = useState<RunningOperation | null>(null)
 
     const runnerRef = useRef<FlinkQueryRunner | null>(null)
     const editorHandleRef = useRef<EditorHandle | null>(null)
@@ -68,13 +176,38 @@ export default function QueryCell({
         return () => queries.removeChangeListener(handler)
     }, [queries])
 
+    // Editor edits are saved silently, so placeholders are tracked here; only a changed set re-renders
+    const updateParameterNames = useCallback((text: string) => {
+        const names = findParameters(text)
+        setParameterNames((prev) => (prev.join('\n') === names.join('\n') ? prev : names))
+    }, [])
+
+    useEffect(() => {
+        updateParameterNames(queries.getCurrentQuery().query ?? '')
+    }, [currentQuery.id, queries, updateParameterNames])
+
     // Listen for connection changes
     useEffect(() => {
-        const handler = () => setActiveConnectionId(connectionManager.getActiveConnectionId())
+        const handler = () => {
+            setActiveConnectionId(connectionManager.getActiveConnectionId())
+            setConnectionRevision((r) => r + 1)
+        }
         connectionManager.addChangeListener(handler)
         return () => connectionManager.removeChangeListener(handler)
     }, [connectionManager])
 
+    // Report journal replays for this tab, whether triggered by a query or by the heartbeat
+    useEffect(() => {
+        const connection = connectionManager.getActiveConnection()
+        if (!connection) return
+        const tabId = currentQuery.id
+        const listener = (recreatedTabId: string, report: SessionReplayReport) => {
+            if (recreatedTabId === tabId) setSessionNotice(describeReplay(report))
+        }
+        connection.addSessionRecreatedListener(listener)
+        return () => connection.removeSessionRecreatedListener(listener)
+    }, [connectionManager, activeConnectionId, connectionRevision, currentQuery.id])
+
     // Eagerly open a session when the tab or connection changes
     useEffect(() => {
         const connection = connectionManager.getActiveConnection()
@@ -86,6 +219,7 @@ export default function QueryCell({
         }
 
         const tabId = currentQuery.id
+        setOrphanedOperation(null)
 
         // If a session already exists for this tab, mark as connected
         if (connection.hasSession(tabId)) {
@@ -99,15 +233,30 @@ export default function QueryCell({
         setSessionState('connecting')
         setSessionError(null)
 
-        const promise = connection.openSession(tabId)
+        // Without a session, a persisted running operation was left behind by an earlier page load
+        const stored = queries.getTabs().find((tab) => tab.id === tabId)?.runningOperation
+        const orphan = stored?.connectionId === connection.id ? stored : undefined
+        const promise = orphan
+            ? connection.adoptSession(tabId, orphan.sessionHandle).then((adopted) => {
+                  if (adopted) return orphan.sessionHandle
+                  queries.updateQuery(tabId, { runningOperation: undefined }, true)
+                  setSessionNotice(
+                      "The statement running before the page was reloaded can't be reattached: its session no longer exists"
+                  )
+                  return connection.openSession(tabId)
+              })
+            : connection.openSession(tabId)
         sessionPromiseRef.current = promise
 
         promise
-            .then(() => {
+            .then((sessionHandle) => {
                 // Only update state if this is still the current promise
                 if (sessionPromiseRef.current === promise) {
                     setSessionState('connected')
                     setSessionError(null)
+                    if (orphan && sessionHandle === orphan.sessionHandle) {
+                        setOrphanedOperation(orphan)
+                    }
                 }
             })
             .catch((err) => {
@@ -123,7 +272,7 @@ export default function QueryCell({
                 sessionPromiseRef.current = null
             }
         }
-    }, [currentQuery.id, connectionManager, activeConnectionId])
+    }, [currentQuery.id, queries, connectionManager, activeConnectionId, connectionRevision])
 
     // Re-validate session when browser tab regains focus (sessions may have expired during inactivity)
     useEffect(() => {
@@ -157,13 +306,13 @@ export default function QueryCell({
         return () => document.removeEventListener('visibilitychange', handleVisibility)
     }, [currentQuery.id, connectionManager])
 
-    const executeWithSession = async (connection: GatewayConnection, query: QueryInfo, sessionHandle: string) => {
-        const text = query.query?.trim()
-        if (!text) return
-
-        const statements = splitStatements(text)
-        if (statements.length === 0) return
-
+    // Cancel any in-flight runner, clear the previous results and set up a runner reporting into this cell
+    const createRunner = async (
+        connection: GatewayConnection,
+        query: QueryInfo,
+        sessionHandle: string,
+        onSessionExpired: QueryRunnerCallbacks['onSessionExpired']
+    ): Promise<FlinkQueryRunner> => {
         // Cancel any in-flight runner before starting a new one
         if (runnerRef.current && runnerRef.current.isRunning()) {
             await runnerRef.current.cancel()
@@ -172,67 +321,128 @@ export default function QueryCell({
         // Reset state
         setColumns([])
         setRows([])
+        setChangelogRows([])
+        setDroppedChangelogRows(0)
+        setChangelogStats(null)
         setError(null)
         setWarning(null)
+        setRetry(null)
+        setOperationStatus([])
         setJobId(null)
+        setSavepointPath(null)
         setIsQueryResult(true)
         setStatementProgress(null)
 
+        // Silent, and at most every CHECKPOINT_SAVE_INTERVAL_MS: only this tab is written, but on every page
+        let lastCheckpointSave = 0
+        let pendingCheckpointSave: ReturnType<typeof setTimeout> | null = null
+        const saveCheckpoint = (checkpoint: OperationCheckpoint | null) => {
+            lastCheckpointSave = Date.now()
+            queries.updateQuery(
+                query.id,
+                { runningOperation: checkpoint ? { ...checkpoint, connectionId: connection.id } : undefined },
+                true
+            )
+        }
+
         const callbacks: QueryRunnerCallbacks = {
             onStateChange: (state) => setQueryState(state),
             onColumnsReceived: (cols) => setColumns(cols),
             onRowsReceived: (allRows) => setRows([...allRows]),
+            onChangelogStats: (stats) => setChangelogStats(stats),
+            onChangelogReceived: (changelog, droppedCount) => {
+                setChangelogRows(changelog)
+                setDroppedChangelogRows(droppedCount)
+            },
             onError: (msg) => setError(msg),
             onWarning: (msg) => setWarning(msg),
             onJobId: (id) => setJobId(id),
+            onSavepoint: (path) => setSavepointPath(path),
+            onJobStarted: (startedJobId, statement) => {
+                const launchedJobs = queries.getTabs().find((tab) => tab.id === query.id)?.launchedJobs ?? []
+                if (launchedJobs.some((job) => job.jobId === startedJobId)) return
+                const job = { jobId: startedJobId, connectionId: connection.id, statement, launchedAt: Date.now() }
+                queries.updateQuery(query.id, { launchedJobs: [...launchedJobs, job].slice(-MAX_LAUNCHED_JOBS) }, true)
+            },
             onIsQueryResult: (isQuery) => setIsQueryResult(isQuery),
             onStatementProgress: (current, total) => setStatementProgress({ current, total }),
-            onSessionExpired: async () => {
-                if (retryCountRef.current >= MAX_SESSION_RETRIES) {
-                    setError('Session expired. Please try again.')
-                    setQueryState('FAILED')
-                    setSessionState('error')
-                    setSessionError('Session expired')
-                    return
+            onStatementResult: (result) => {
+                const index = result.index + statementOffsetRef.current
+                setStatementResults((prev) => [...prev.slice(0, index), { ...result, index }])
+            },
+            onRetry: (attempt) => setRetry(attempt),
+            onOperationStatus: (history) => setOperationStatus(history),
+            onStatementFinished: (statement) => connection.recordStatement(query.id, statement),
+            onCheckpoint: (checkpoint) => {
+                if (pendingCheckpointSave) {
+                    clearTimeout(pendingCheckpointSave)
+                    pendingCheckpointSave = null
                 }
-                retryCountRef.current++
-                try {
-                    setSessionState('connecting')
-                    const newHandle = await connection.recreateSession(query.id)
-                    setSessionState('connected')
-                    setSessionError(null)
-                    await executeWithSession(connection, query, newHandle)
-                } catch (err) {
-                    const msg = getErrorMessage(err)
-                    setError(msg)
-                    setQueryState('FAILED')
-                    setSessionState('error')
-                    setSessionError(msg)
+                const wait = lastCheckpointSave + CHECKPOINT_SAVE_INTERVAL_MS - Date.now()
+                // Clearing is never delayed, so a finished statement isn't offered for reattaching
+                if (!checkpoint || wait <= 0) {
+                    saveCheckpoint(checkpoint)
+                } else {
+                    pendingCheckpointSave = setTimeout(() => {
+                        pendingCheckpointSave = null
+                        saveCheckpoint(checkpoint)
+                    }, wait)
                 }
             },
+            onSessionExpired,
         }
 
-        const runner = new FlinkQueryRunner(connection.client, sessionHandle, callbacks)
+        const runner = new FlinkQueryRunner(connection.client, sessionHandle, callbacks, query.rowLimit)
         runnerRef.current = runner
-        await runner.executeAll(statements)
+        return runner
     }
 
-    const handleExecute = async (statementOverride?: string) => {
-        const connection = connectionManager.getActiveConnection()
-        if (!connection) {
-            setError('No gateway connection selected. Click the connection icon to add one.')
-            return
-        }
+    const executeWithSession = async (
+        connection: GatewayConnection,
+        query: QueryInfo,
+        sessionHandle: string,
+        settings?: ExecutionSettings,
+        startAt = 0
+    ) => {
+        const text = query.query?.trim()
+        if (!text) return
 
-        const query = queries.getCurrentQuery()
-        const statement = statementOverride?.trim() || query.query?.trim()
-        if (!statement) {
-            setError('No SQL statement to execute')
-            return
-        }
+        const statements = splitStatements(text).slice(startAt)
+        if (statements.length === 0) return
+
+        const runner = await createRunner(connection, query, sessionHandle, async (statementIndex) => {
+            if (retryCountRef.current >= MAX_SESSION_RETRIES) {
+                setError('Session expired. Please try again.')
+                setQueryState('FAILED')
+                setSessionState('error')
+                setSessionError('Session expired')
+                return
+            }
+            retryCountRef.current++
+            try {
+                setSessionState('connecting')
+                const newHandle = await connection.recreateSession(query.id)
+                setSessionState('connected')
+                setSessionError(null)
+                // Earlier statements completed and any session state they set was replayed
+                await executeWithSession(connection, query, newHandle, settings, startAt + statementIndex)
+            } catch (err) {
+                const msg = getErrorMessage(err)
+                setError(msg)
+                setQueryState('FAILED')
+                setSessionState('error')
+                setSessionError(msg)
+            }
+        })
+        const config = settings && Object.keys(settings.config).length > 0 ? settings.config : undefined
+        statementOffsetRef.current = startAt
+        await runner.executeAll(statements, config, settings?.timeoutMs, query.continueOnError)
+    }
 
-        // Validate the cached session handle (it may have expired during inactivity)
-        let sessionHandle: string | null = await connection.validateSession(query.id)
+    // Validate the cached session handle (it may have expired during inactivity), then fall back
+    // to an in-flight open or a fresh session. Throws if no session can be opened.
+    const acquireSession = async (connection: GatewayConnection, tabId: string): Promise<string> => {
+        let sessionHandle: string | null = await connection.validateSession(tabId)
         if (!sessionHandle && sessionPromiseRef.current) {
             try {
                 sessionHandle = await sessionPromiseRef.current
@@ -243,20 +453,123 @@ export default function QueryCell({
         if (!sessionHandle) {
             try {
                 setSessionState('connecting')
-                sessionHandle = await connection.openSession(query.id)
+                sessionHandle = await connection.openSession(tabId)
                 setSessionState('connected')
                 setSessionError(null)
             } catch (err) {
-                const msg = getErrorMessage(err)
                 setSessionState('error')
-                setSessionError(msg)
-                setError(msg)
-                return
+                setSessionError(getErrorMessage(err))
+                throw err
             }
         }
+        return sessionHandle
+    }
+
+    const handleExecute = async (statementOverride?: string, settings?: ExecutionSettings) => {
+        setSessionNotice(null)
+        const connection = connectionManager.getActiveConnection()
+        if (!connection) {
+            setError('No gateway connection selected. Click the connection icon to add one.')
+            return
+        }
+
+        const query = queries.getCurrentQuery()
+        let statement = statementOverride?.trim() || query.query?.trim()
+        if (!statement) {
+            setError('No SQL statement to execute')
+            return
+        }
+        try {
+            statement = substituteParameters(statement, query.parameters ?? [])
+        } catch (err) {
+            setError(getErrorMessage(err))
+            return
+        }
+        // The new run's rows are compared against these to mark changed cells
+        setPreviousResult(
+            query.autoRefresh?.highlightChanges && isQueryResult && queryState === 'FINISHED' ? { columns, rows } : null
+        )
+
+        let sessionHandle: string
+        try {
+            sessionHandle = await acquireSession(connection, query.id)
+        } catch (err) {
+            setError(getErrorMessage(err))
+            return
+        }
 
         retryCountRef.current = 0
-        await executeWithSession(connection, { ...query, query: statement }, sessionHandle)
+        setOrphanedOperation(null)
+        setStatementResults([])
+        await executeWithSession(connection, { ...query, query: statement }, sessionHandle, settings)
+    }
+
+    // The schedule outlives renders; it always calls the latest handleExecute
+    const handleExecuteRef = useRef(handleExecute)
+    handleExecuteRef.current = handleExecute
+
+    // Only the tab on screen has a runner, so only its schedule runs
+    const autoRefreshMs = currentQuery.autoRefresh?.enabled ? currentQuery.autoRefresh.intervalMs : null
+    useEffect(() => {
+        if (!autoRefreshMs) return
+        let lastRun = Date.now()
+        const tick = () => {
+            // A hidden tab catches up as soon as it becomes visible again
+            if (document.visibilityState !== 'visible' || Date.now() - lastRun < autoRefreshMs) return
+            lastRun = Date.now()
+            // Skipped, not queued, while the previous run is still executing; a run paused by the
+            // row limit counts as finished, or it would hold off every refresh until resumed
+            const runner = runnerRef.current
+            if (runner?.isRunning() && runner.getState() !== 'PAUSED') return
+            handleExecuteRef.current()
+        }
+        const id = setInterval(tick, Math.min(autoRefreshMs, AUTO_REFRESH_CHECK_MS))
+        document.addEventListener('visibilitychange', tick)
+        return () => {
+            clearInterval(id)
+            document.removeEventListener('visibilitychange', tick)
+        }
+    }, [currentQuery.id, autoRefreshMs])
+
+    // Explains the selection, or the statement under the cursor
+    const handleExplain = () => {
+        const editor = editorHandleRef.current
+        const statement = editor?.getSelectedText() ?? editor?.getStatementAtCursor()
+        if (!statement) {
+            setError('Place the cursor in a statement to explain it')
+            return
+        }
+        handleExecute(explainStatement(statement))
+    }
+
+    const handleReattach = async () => {
+        const connection = connectionManager.getActiveConnection()
+        const operation = orphanedOperation
+        if (!connection || !operation) return
+        setOrphanedOperation(null)
+        setSessionNotice(null)
+        setStatementResults([])
+
+        const query = queries.getCurrentQuery()
+        const runner = await createRunner(connection, query, operation.sessionHandle, () => {
+            // Unlike a fresh run, the statement is not resubmitted: it may have side effects
+            setError('Session expired — the operation can no longer be reattached')
+            setQueryState('FAILED')
+            queries.updateQuery(query.id, { runningOperation: undefined }, true)
+        })
+        setWarning('Reattached after a page reload — rows fetched before the reload are not shown')
+        await runner.attach(operation)
+    }
+
+    const handleStopOrphaned = async () => {
+        const connection = connectionManager.getActiveConnection()
+        const operation = orphanedOperation
+        if (!connection || !operation) return
+        setOrphanedOperation(null)
+        setSessionNotice(null)
+
+        const runner = await createRunner(connection, queries.getCurrentQuery(), operation.sessionHandle, undefined)
+        await runner.cancelDetached(operation)
     }
 
     const handleCancel = async () => {
@@ -265,6 +578,53 @@ export default function QueryCell({
         }
     }
 
+    // Stops the running statement, or the job an INSERT left running after it returned
+    const handleStopJob = async (mode: StopJobMode) => {
+        setStopMenuAnchor(null)
+        const runner = runnerRef.current
+        if (!runner) return
+        if (runner.isRunning()) {
+            await runner.cancel(mode)
+        } else {
+            await runner.stopJob(mode)
+        }
+    }
+
+    const handleUseSavepoint = () => {
+        if (!savepointPath) return
+        editorHandleRef.current?.prependText(
+            `SET 'execution.savepoint.path' = '${savepointPath.replace(/'/g, "''")}';\n`
+        )
+    }
+
+    const handleDeploy = async (request: { script?: string; scriptUri?: string }): Promise<string> => {
+        const connection = connectionManager.getActiveConnection()
+        if (!connection) {
+            throw new Error('No gateway connection selected. Click the connection icon to add one.')
+        }
+        const query = queries.getCurrentQuery()
+        // The tab's script gets its parameters filled in, the same as a run
+        const deployRequest =
+            request.script !== undefined
+                ? { script: substituteParameters(request.script, query.parameters ?? []) }
+                : request
+        const sessionHandle = await acquireSession(connection, query.id)
+        const response = await connection.client.deployScript(sessionHandle, deployRequest)
+
+        const deployment: ScriptDeployment = {
+            clusterId: response.clusterID,
+            deployedAt: Date.now(),
+            scriptUri: request.scriptUri,
+        }
+        queries.updateQuery(query.id, { deployments: [...(query.deployments ?? []), deployment] })
+        return response.clusterID
+    }
+
+    const handleResume = () => {
+        setWarning(null)
+        runnerRef.current?.resume()
+    }
+
     const handleTabClose = (tabId: string) => {
         const connection = connectionManager.getActiveConnection()
         if (connection) {
@@ -272,8 +632,15 @@ export default function QueryCell({
         }
     }
 
-    const isRunning = queryState === 'SUBMITTING' || queryState === 'RUNNING' || queryState === 'CANCELLING'
+    const isRunning =
+        queryState === 'SUBMITTING' ||
+        queryState === 'RUNNING' ||
+        queryState === 'PAUSED' ||
+        queryState === 'CANCELLING'
+    // An INSERT returns as soon as its job is submitted; the job keeps running afterwards
+    const canStopJob = isRunning ? queryState !== 'CANCELLING' : queryState === 'FINISHED' && !!jobId && !isQueryResult
     const activeConnection = connectionManager.getActiveConnection()
+    const initFailures = activeConnection?.getInitFailures(currentQuery.id) ?? []
     const contentHeight = height - TOOLBAR_HEIGHT
 
     return (
@@ -295,14 +662,11 @@ export default function QueryCell({
                 </IconButton>
 
                 {isRunning ? (
-                    <IconButton
-                        size="small"
-                        onClick={handleCancel}
-                        color="error"
-                        disabled={queryState === 'CANCELLING'}
-                    >
-                        <StopIcon fontSize="small" />
-                    </IconButton>
+                    <Tooltip title={queryState === 'CANCELLING' ? 'Stop waiting for a pending savepoint' : ''}>
+                        <IconButton size="small" onClick={handleCancel} color="error">
+                            <StopIcon fontSize="small" />
+                        </IconButton>
+                    </Tooltip>
                 ) : (
                     <IconButton
                         size="small"
@@ -312,6 +676,47 @@ export default function QueryCell({
                         <PlayArrowIcon fontSize="small" />
                     </IconButton>
                 )}
+                {(isRunning || canStopJob) && (
+                    <Tooltip title="Stop job…">
+                        <span>
+                            <IconButton
+                                size="small"
+                                onClick={(e) => setStopMenuAnchor(e.currentTarget)}
+                                disabled={!canStopJob}
+                                sx={{ ml: -0.5, px: 0 }}
+                            >
+                                <ArrowDropDownIcon fontSize="small" />
+                            </IconButton>
+                        </span>
+                    </Tooltip>
+                )}
+                <Menu anchorEl={stopMenuAnchor} open={!!stopMenuAnchor} onClose={() => setStopMenuAnchor(null)}>
+                    {STOP_JOB_OPTIONS.map(({ mode, label }) => (
+                        <MenuItem
+                            key={mode}
+                            dense
+                            // Without a job id there's nothing to take a savepoint of
+                            disabled={mode !== 'stop' && !jobId}
+                            onClick={() => handleStopJob(mode)}
+                        >
+                            {label}
+                        </MenuItem>
+                    ))}
+                </Menu>
+                <Tooltip title="Explain plan">
+                    <span>
+                        <IconButton size="small" onClick={handleExplain} disabled={isRunning}>
+                            <AccountTreeIcon fontSize="small" />
+                        </IconButton>
+                    </span>
+                </Tooltip>
+                <Tooltip title="Run with…">
+                    <span>
+                        <IconButton size="small" onClick={() => setRunWithDialogOpen(true)} disabled={isRunning}>
+                            <TuneIcon fontSize="small" />
+                        </IconButton>
+                    </span>
+                </Tooltip>
 
                 <Typography variant="body2" sx={{ fontWeight: 500, ml: 1 }}>
                     {currentQuery.title}
@@ -319,6 +724,53 @@ export default function QueryCell({
 
                 <Box sx={{ flex: 1 }} />
 
+                <Tooltip title="Session configuration">
+                    <IconButton size="small" onClick={() => setSessionConfigOpen(true)}>
+                        <SettingsIcon fontSize="small" />
+                    </IconButton>
+                </Tooltip>
+                <Tooltip title="Jobs">
+                    <IconButton size="small" onClick={() => setJobsPanelOpen(true)}>
+                        <WorkIcon fontSize="small" />
+                    </IconButton>
+                </Tooltip>
+                <Tooltip title="Sessions">
+                    <IconButton size="small" onClick={() => setSessionBrowserOpen(true)}>
+                        <ListAltIcon fontSize="small" />
+                    </IconButton>
+                </Tooltip>
+                {activeConnection?.supports('deployScript') && (
+                    <Tooltip title="Deploy script as application">
+                        <IconButton size="small" onClick={() => setDeployDialogOpen(true)}>
+                            <RocketLaunchIcon fontSize="small" />
+                        </IconButton>
+                    </Tooltip>
+                )}
+                <Tooltip
+                    title={
+                        currentQuery.continueOnError
+                            ? 'Continue on error: on — a failing statement does not stop the script'
+                            : 'Continue on error: off — the script stops at the first failing statement'
+                    }
+                >
+                    <IconButton
+                        size="small"
+                        color={currentQuery.continueOnError ? 'primary' : 'default'}
+                        onClick={() =>
+                            queries.updateQuery(currentQuery.id, { continueOnError: !currentQuery.continueOnError })
+                        }
+                    >
+                        <PlaylistPlayIcon fontSize="small" />
+                    </IconButton>
+                </Tooltip>
+                <AutoRefreshSettings
+                    autoRefresh={currentQuery.autoRefresh}
+                    onChange={(autoRefresh) => queries.updateQuery(currentQuery.id, { autoRefresh })}
+                />
+                <RowLimitSettings
+                    rowLimit={currentQuery.rowLimit}
+                    onChange={(rowLimit) => queries.updateQuery(currentQuery.id, { rowLimit })}
+                />
                 <IconButton size="small" onClick={onOpenConnectionDialog}>
                     <StorageIcon fontSize="small" />
                 </IconButton>
@@ -328,11 +780,12 @@ export default function QueryCell({
                             sessionState === 'connecting'
                                 ? 'Connecting to gateway...'
                                 : sessionState === 'connected'
-                                  ? 'Session active'
+                                  ? describeSession(activeConnection, initFailures)
                                   : sessionState === 'error'
                                     ? sessionError || 'Connection error'
                                     : ''
                         }
+                        slotProps={{ tooltip: { sx: { whiteSpace: 'pre-wrap' } } }}
                     >
                         <Box
                             sx={{
@@ -341,7 +794,9 @@ export default function QueryCell({
                                 borderRadius: '50%',
                                 bgcolor:
                                     sessionState === 'connected'
-                                        ? 'success.main'
+                                        ? initFailures.length > 0
+                                            ? 'warning.main'
+                                            : 'success.main'
                                         : sessionState === 'error'
                                           ? 'error.main'
                                           : sessionState === 'connecting'
@@ -370,28 +825,116 @@ export default function QueryCell({
                     <QueryEditorPane
                         queries={queries}
                         currentQuery={currentQuery}
+                        connectionManager={connectionManager}
+                        schemaProvider={schemaProvider}
                         height={editorHeight}
                         theme={theme}
                         onExecute={handleExecute}
                         onCancel={handleCancel}
+                        onQueryChange={updateParameterNames}
                         onTabClose={handleTabClose}
                         editorHandleRef={editorHandleRef}
                     />
                 )}
                 bottomContent={(resultHeight) => (
-                    <ResultSet
-                        state={queryState}
-                        columns={columns}
-                        rows={rows}
-                        error={error}
-                        warning={warning}
-                        jobId={jobId}
-                        isQueryResult={isQueryResult}
-                        height={resultHeight}
-                        statementProgress={statementProgress}
-                    />
+                    <>
+                        {parameterNames.length > 0 && (
+                            <QueryParameters
+                                names={parameterNames}
+                                parameters={currentQuery.parameters ?? []}
+                                onChange={(parameters) => queries.updateQuery(currentQuery.id, { parameters })}
+                            />
+                        )}
+                        <ResultSet
+                            state={queryState}
+                            columns={columns}
+                            rows={rows}
+                            changelogRows={changelogRows}
+                            droppedChangelogRows={droppedChangelogRows}
+                            viewMode={resultViewMode}
+                            onViewModeChange={setResultViewMode}
+                            changelogStats={changelogStats}
+                            error={error}
+                            warning={[sessionNotice, warning].filter(Boolean).join('\n') || null}
+                            jobId={jobId}
+                            onShowJob={activeConnection?.jobManager && jobId ? () => setJobDetailId(jobId) : undefined}
+                            isQueryResult={isQueryResult}
+                            height={resultHeight - (parameterNames.length > 0 ? PARAMETERS_BAR_HEIGHT : 0)}
+                            statementProgress={statementProgress}
+                            statementResults={statementResults}
+                            previousResult={previousResult}
+                            retry={retry}
+                            operationStatus={operationStatus}
+                            onResume={handleResume}
+                            savepointPath={savepointPath}
+                            onUseSavepoint={handleUseSavepoint}
+                            orphanedOperation={orphanedOperation}
+                            onReattach={handleReattach}
+                            onStopOrphaned={handleStopOrphaned}
+                        />
+                    </>
                 )}
             />
+
+            <SessionConfigPanel
+                open={sessionConfigOpen}
+                onClose={() => setSessionConfigOpen(false)}
+                connection={activeConnection}
+                tabId={currentQuery.id}
+                acquireSession={() => {
+                    if (!activeConnection) {
+                        return Promise.reject(new Error('No gateway connection selected'))
+                    }
+                    return acquireSession(activeConnection, currentQuery.id)
+                }}
+            />
+
+            <SessionBrowser
+                open={sessionBrowserOpen}
+                onClose={() => setSessionBrowserOpen(false)}
+                connectionManager={connectionManager}
+                queries={queries}
+            />
+
+            <JobsPanel
+                open={jobsPanelOpen}
+                onClose={() => setJobsPanelOpen(false)}
+                connectionManager={connectionManager}
+                queries={queries}
+                jobsProvider={jobsProvider}
+                onShowJob={activeConnection?.jobManager ? setJobDetailId : undefined}
+            />
+
+            <JobDetailPane
+                open={jobDetailId !== null}
+                onClose={() => setJobDetailId(null)}
+                connection={activeConnection}
+                jobId={jobDetailId}
+            />
+
+            <RunWithDialog
+                open={runWithDialogOpen}
+                onClose={() => setRunWithDialogOpen(false)}
+                tabPresets={currentQuery.executionPresets ?? []}
+                onTabPresetsChange={(executionPresets) => queries.updateQuery(currentQuery.id, { executionPresets })}
+                connectionName={activeConnection?.name ?? null}
+                connectionPresets={activeConnection?.getExecutionPresets() ?? []}
+                onConnectionPresetsChange={(presets) =>
+                    activeConnection && connectionManager.setExecutionPresets(activeConnection.id, presets)
+                }
+                onRun={(timeoutMs, config) =>
+                    handleExecute(editorHandleRef.current?.getSelectedText(), { timeoutMs, config })
+                }
+            />
+
+            <DeployScriptDialog
+                open={deployDialogOpen}
+                onClose={() => setDeployDialogOpen(false)}
+                script={queries.getCurrentQuery().query || ''}
+                parameters={currentQuery.parameters ?? []}
+                deployments={currentQuery.deployments ?? []}
+                onDeploy={handleDeploy}
+            />
         </Box>
     )
 }
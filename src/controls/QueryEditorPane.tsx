@@ -3,20 +3,33 @@ import { Box } from '@mui/material'
 import Editor, { OnMount } from '@monaco-editor/react'
 import * as monaco from 'monaco-editor'
 import QueryTabs from './tabs/QueryTabs'
+import ConnectionManager from '../schema/ConnectionManager'
 import Queries from '../schema/Queries'
 import QueryInfo from '../schema/QueryInfo'
+import SchemaProvider from '../sql/SchemaProvider'
+import SqlCompletionProvider from '../sql/SqlCompletionProvider'
+import analyzeStatement from '../sql/analyzeStatement'
+import { FLINK_SQL_LANGUAGE_ID, registerFlinkSqlLanguage } from '../sql/flinkSqlLanguage'
 
 export interface EditorHandle {
     getSelectedText: () => string | undefined
+    /** The statement containing the cursor, without its terminating semicolon. */
+    getStatementAtCursor: () => string | undefined
+    /** Insert text at the start of the script, as an undoable edit. */
+    prependText: (text: string) => void
 }
 
 interface QueryEditorPaneProps {
     queries: Queries
     currentQuery: QueryInfo
+    connectionManager: ConnectionManager
+    schemaProvider: SchemaProvider
     height: number
     theme: 'light' | 'dark'
     onExecute: (statementOverride?: string) => void
     onCancel: () => void
+    /** Called with the tab's SQL after each edit. */
+    onQueryChange?: (query: string) => void
     onTabClose?: (tabId: string) => void
     editorHandleRef?: React.MutableRefObject<EditorHandle | null>
 }
@@ -24,10 +37,13 @@ interface QueryEditorPaneProps {
 export default function QueryEditorPane({
     queries,
     currentQuery,
+    connectionManager,
+    schemaProvider,
     height,
     theme,
     onExecute,
     onCancel,
+    onQueryChange,
     onTabClose: externalTabClose,
     editorHandleRef,
 }: QueryEditorPaneProps) {
@@ -37,12 +53,31 @@ export default function QueryEditorPane({
     onExecuteRef.current = onExecute
     const onCancelRef = useRef(onCancel)
     onCancelRef.current = onCancel
+    const currentQueryIdRef = useRef(currentQuery.id)
+    currentQueryIdRef.current = currentQuery.id
+    const completionDisposableRef = useRef<monaco.IDisposable | null>(null)
 
     const tabs = queries.getTabs()
 
-    const handleEditorMount: OnMount = (editor) => {
+    // Completion providers are global to Monaco — drop ours when the editor goes away
+    useEffect(() => {
+        return () => {
+            completionDisposableRef.current?.dispose()
+            completionDisposableRef.current = null
+        }
+    }, [])
+
+    const handleEditorMount: OnMount = (editor, monacoInstance) => {
         editorRef.current = editor
 
+        const completionProvider = new SqlCompletionProvider(
+            schemaProvider,
+            connectionManager,
+            () => currentQueryIdRef.current
+        )
+        completionDisposableRef.current?.dispose()
+        completionDisposableRef.current = completionProvider.register(monacoInstance, editor, FLINK_SQL_LANGUAGE_ID)
+
         // Track selection changes so the selected text survives focus loss.
         // Only update when the editor has focus — clicking the Play button
         // causes a blur which collapses the selection, and we want to keep
@@ -60,6 +95,16 @@ export default function QueryEditorPane({
         if (editorHandleRef) {
             editorHandleRef.current = {
                 getSelectedText: () => selectedTextRef.current,
+                getStatementAtCursor: () => {
+                    const model = editor.getModel()
+                    const position = editor.getPosition()
+                    if (!model || !position) return undefined
+                    return analyzeStatement(model.getValue(), model.getOffsetAt(position)).statement.trim() || undefined
+                },
+                prependText: (text) => {
+                    editor.executeEdits('prepend-text', [{ range: new monaco.Range(1, 1, 1, 1), text }])
+                    editor.focus()
+                },
             }
         }
 
@@ -85,6 +130,7 @@ export default function QueryEditorPane({
     const handleEditorChange = (value: string | undefined) => {
         if (value !== undefined) {
             queries.updateQuery(currentQuery.id, { query: value }, true)
+            onQueryChange?.(value)
         }
     }
 
@@ -123,7 +169,7 @@ export default function QueryEditorPane({
             <Box sx={{ flex: 1, minHeight: 0 }}>
                 <Editor
                     height={editorHeight > 0 ? editorHeight : 100}
-                    language="sql"
+                    language={FLINK_SQL_LANGUAGE_ID}
                     theme={theme === 'dark' ? 'vs-dark' : 'vs'}
                     value={currentQuery.query || ''}
                     options={{
@@ -137,6 +183,7 @@ export default function QueryEditorPane({
                         lineNumbersMinChars: 3,
                         padding: { top: 8, bottom: 8 },
                     }}
+                    beforeMount={registerFlinkSqlLanguage}
                     onMount={handleEditorMount}
                     onChange={handleEditorChange}
                 />
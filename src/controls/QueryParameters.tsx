@@ -0,0 +1,79 @@
+import React from 'react'
+import { Box, MenuItem, TextField, Typography } from '@mui/material'
+import QueryParameter, { ParameterType } from '../schema/QueryParameter'
+import { parameterFor } from '../sql/substituteParameters'
+
+export const PARAMETERS_BAR_HEIGHT = 52
+
+const TYPE_LABELS: Record<ParameterType, string> = {
+    string: 'String',
+    number: 'Number',
+    identifier: 'Identifier',
+    raw: 'Raw SQL',
+}
+
+interface QueryParametersProps {
+    /** Placeholder names found in the SQL, in order. */
+    names: string[]
+    parameters: QueryParameter[]
+    onChange: (parameters: QueryParameter[]) => void
+}
+
+/** One row of inputs for the `${name}` placeholders in the tab's SQL. */
+export default function QueryParameters({ names, parameters, onChange }: QueryParametersProps) {
+    const update = (name: string, changes: Partial<QueryParameter>) => {
+        const updated = { ...parameterFor(parameters, name), ...changes }
+        onChange([...parameters.filter((p) => p.name !== name), updated])
+    }
+
+    return (
+        <Box
+            sx={{
+                height: PARAMETERS_BAR_HEIGHT,
+                display: 'flex',
+                alignItems: 'center',
+                gap: 2,
+                px: 1,
+                overflowX: 'auto',
+                borderBottom: 1,
+                borderColor: 'divider',
+            }}
+        >
+            <Typography variant="caption" color="text.secondary">
+                Parameters
+            </Typography>
+            {names.map((name) => {
+                const parameter = parameterFor(parameters, name)
+                return (
+                    <Box key={name} sx={{ display: 'flex', flexShrink: 0 }}>
+                        <TextField
+                            size="small"
+                            label={name}
+                            value={parameter.value}
+                            // Numbers and identifiers can't be empty; running would fail
+                            error={
+                                (parameter.type === 'number' || parameter.type === 'identifier') &&
+                                !parameter.value.trim()
+                            }
+                            onChange={(e) => update(name, { value: e.target.value })}
+                            sx={{ width: 180, '& .MuiOutlinedInput-root': { borderRadius: '4px 0 0 4px' } }}
+                        />
+                        <TextField
+                            select
+                            size="small"
+                            value={parameter.type}
+                            onChange={(e) => update(name, { type: e.target.value as ParameterType })}
+                            sx={{ width: 116, '& .MuiOutlinedInput-root': { borderRadius: '0 4px 4px 0' } }}
+                        >
+                            {(Object.keys(TYPE_LABELS) as ParameterType[]).map((type) => (
+                                <MenuItem key={type} value={type} dense>
+                                    {TYPE_LABELS[type]}
+                                </MenuItem>
+                            ))}
+                        </TextField>
+                    </Box>
+                )
+            })}
+        </Box>
+    )
+}
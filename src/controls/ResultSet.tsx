@@ -1,9 +1,27 @@
-import React, { useEffect, useMemo, useRef } from 'react'
-import { Alert, Box, CircularProgress, LinearProgress, Typography } from '@mui/material'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import {
+    Alert,
+    Box,
+    Button,
+    CircularProgress,
+    LinearProgress,
+    Link,
+    ToggleButton,
+    ToggleButtonGroup,
+    Tooltip,
+    Typography,
+} from '@mui/material'
 import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline'
 import { DataGrid, GridColDef } from '@mui/x-data-grid'
-import { ColumnInfo, RowData } from '../api/FlinkSqlGatewayTypes'
-import { QueryState } from '../api/FlinkQueryRunner'
+import { ColumnInfo, RowData, RowKind } from '../api/FlinkSqlGatewayTypes'
+import { isTerminalOperationStatus, OperationStatusTiming, QueryState, StatementResult } from '../api/FlinkQueryRunner'
+import { ChangelogStats } from '../api/MaterializedResult'
+import decodeValue, { compareValues, DecodedValue, formatValue, isNumericType } from '../api/decodeValue'
+import { RetryAttempt } from '../api/RetryPolicy'
+import { RunningOperation } from '../schema/QueryInfo'
+import { isExplainOutput } from '../sql/parseExplainPlan'
+import ExplainView from './ExplainView'
+import StatementLog from './StatementLog'
 
 const MIN_COL_WIDTH = 80
 const MAX_COL_WIDTH = 500
@@ -11,49 +29,149 @@ const CHAR_WIDTH = 8
 const CELL_PADDING = 24
 const SAMPLE_ROWS = 100
 const ROW_NUM_COL_WIDTH = 56
+const OP_COL_WIDTH = 52
+
+// Same short forms the Flink SQL client prints in changelog mode
+const ROW_KIND_LABELS: Record<RowKind, string> = {
+    INSERT: '+I',
+    UPDATE_BEFORE: '-U',
+    UPDATE_AFTER: '+U',
+    DELETE: '-D',
+}
+
+const ROW_KIND_COLORS: Record<RowKind, string> = {
+    INSERT: 'success.main',
+    UPDATE_BEFORE: 'warning.main',
+    UPDATE_AFTER: 'info.main',
+    DELETE: 'error.main',
+}
+
+export type ResultViewMode = 'table' | 'changelog'
 
 interface ResultSetProps {
     state: QueryState
     columns: ColumnInfo[]
     rows: RowData[]
+    changelogRows: RowData[]
+    droppedChangelogRows: number
+    viewMode: ResultViewMode
+    onViewModeChange: (mode: ResultViewMode) => void
+    changelogStats: ChangelogStats | null
     error: string | null
     warning: string | null
     jobId: string | null
+    /** Open the job detail pane; undefined when the connection has no JobManager URL. */
+    onShowJob?: () => void
     isQueryResult: boolean
     height: number
     statementProgress: { current: number; total: number } | null
+    /** Per-statement results of a multi-statement run. */
+    statementResults: StatementResult[]
+    /** Result of the previous run; cells that differ from it are highlighted. */
+    previousResult: { columns: ColumnInfo[]; rows: RowData[] } | null
+    retry: RetryAttempt | null
+    operationStatus: OperationStatusTiming[]
+    onResume: () => void
+    savepointPath: string | null
+    /** Add a SET 'execution.savepoint.path' for the savepoint to the script, so the next run restores it. */
+    onUseSavepoint: () => void
+    /** A statement left running by an earlier page load, offered for reattaching. */
+    orphanedOperation: RunningOperation | null
+    onReattach: () => void
+    onStopOrphaned: () => void
 }
 
-function estimateColumnWidth(headerName: string, rows: RowData[], colIndex: number): number {
-    let maxLen = headerName.length
+function estimateColumnWidth(column: ColumnInfo, rows: RowData[], colIndex: number): number {
+    let maxLen = column.name.length
     const limit = Math.min(rows.length, SAMPLE_ROWS)
     for (let i = 0; i < limit; i++) {
-        const val = rows[i].fields[colIndex]
-        if (val == null) continue
-        const str = typeof val === 'object' ? JSON.stringify(val) : String(val)
+        const str = formatValue(decodeValue(column.logicalType, rows[i].fields[colIndex]))
+        if (str === null) continue
         if (str.length > maxLen) maxLen = str.length
     }
     return Math.min(Math.max(maxLen * CHAR_WIDTH + CELL_PADDING, MIN_COL_WIDTH), MAX_COL_WIDTH)
 }
 
-function formatCellValue(val: unknown): string | null {
-    if (val === null || val === undefined) return null
-    if (typeof val === 'object') return JSON.stringify(val)
-    return String(val)
+function formatDuration(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000)
+    if (totalSeconds < 60) return `${totalSeconds}s`
+    const hours = Math.floor(totalSeconds / 3600)
+    const minutes = Math.floor((totalSeconds % 3600) / 60)
+    const seconds = totalSeconds % 60
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${seconds}s`
+}
+
+/** Current gateway-side operation status, with time spent in each status in the tooltip. */
+function OperationStatusLabel({ history }: { history: OperationStatusTiming[] }) {
+    const current = history[history.length - 1]
+    const isOpen = current.leftAt === null
+    const [now, setNow] = useState(() => Date.now())
+
+    // Tick while the operation sits in a status so the duration stays live
+    useEffect(() => {
+        if (!isOpen) return
+        const id = setInterval(() => setNow(Date.now()), 1000)
+        return () => clearInterval(id)
+    }, [isOpen])
+
+    const durationOf = (timing: OperationStatusTiming) =>
+        formatDuration(Math.max(0, (timing.leftAt ?? now) - timing.enteredAt))
+
+    return (
+        <Tooltip
+            title={
+                <Box component="table" sx={{ borderSpacing: '8px 0' }}>
+                    <tbody>
+                        {history.map((timing) => (
+                            <tr key={timing.enteredAt}>
+                                <td>{timing.status}</td>
+                                <td>{isTerminalOperationStatus(timing.status) ? '' : durationOf(timing)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </Box>
+            }
+        >
+            <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                Gateway: {current.status}
+                {!isTerminalOperationStatus(current.status) && ` ${durationOf(current)}`}
+            </Typography>
+        </Tooltip>
+    )
 }
 
 export default function ResultSet({
     state,
     columns,
     rows,
+    changelogRows,
+    droppedChangelogRows,
+    viewMode,
+    onViewModeChange,
+    changelogStats,
     error,
     warning,
     jobId,
+    onShowJob,
     isQueryResult,
     height,
     statementProgress,
+    statementResults,
+    previousResult,
+    retry,
+    operationStatus,
+    onResume,
+    savepointPath,
+    onUseSavepoint,
+    orphanedOperation,
+    onReattach,
+    onStopOrphaned,
 }: ResultSetProps) {
     const isRunning = state === 'SUBMITTING' || state === 'RUNNING' || state === 'CANCELLING'
+    const isChangelogView = viewMode === 'changelog'
+    const [statementLogOpen, setStatementLogOpen] = useState(false)
+    const showStatementLog = statementLogOpen && statementResults.length > 1
+    const displayRows = isChangelogView ? changelogRows : rows
     const progressPrefix =
         statementProgress && statementProgress.total > 1
             ? `[${statementProgress.current}/${statementProgress.total}] `
@@ -64,6 +182,7 @@ export default function ResultSet({
         if (state === 'SUBMITTING') return `${progressPrefix}Submitting...`
         if (state === 'RUNNING')
             return `${progressPrefix}Running${rows.length > 0 ? ` — ${rows.length.toLocaleString()} rows` : ''}...`
+        if (state === 'PAUSED') return `${progressPrefix}Paused — ${rows.length.toLocaleString()} rows`
         if (state === 'CANCELLING') return `${progressPrefix}Cancelling...`
         if (state === 'CANCELLED') return `${progressPrefix}Cancelled`
         if (state === 'FAILED') return `${progressPrefix}Failed`
@@ -79,6 +198,9 @@ export default function ResultSet({
         return ''
     }
 
+    // Only worth showing once the result is an actual changelog, not an append-only stream
+    const showChangelogStats = !!changelogStats && (changelogStats.updates > 0 || changelogStats.deletes > 0)
+
     const ddlResultText = (): string => {
         if (rows.length > 0 && rows[0].fields.length > 0) {
             return String(rows[0].fields[0])
@@ -90,13 +212,13 @@ export default function ResultSet({
     // so subsequent row updates don't recalculate widths and reset user resizes.
     const widthSnapshotRef = useRef<RowData[]>([])
     useEffect(() => {
-        if (columns.length > 0 && rows.length > 0 && widthSnapshotRef.current.length === 0) {
-            widthSnapshotRef.current = rows.slice(0, SAMPLE_ROWS)
+        if (columns.length > 0 && displayRows.length > 0 && widthSnapshotRef.current.length === 0) {
+            widthSnapshotRef.current = displayRows.slice(0, SAMPLE_ROWS)
         }
         if (columns.length === 0) {
             widthSnapshotRef.current = []
         }
-    }, [columns, rows])
+    }, [columns, displayRows])
 
     // Column definitions only recompute when column metadata changes — not on every row update.
     // The width snapshot ref is read but not a dependency, so widths are locked after first batch.
@@ -115,15 +237,42 @@ export default function ResultSet({
             renderCell: (params) => params.row.__rowId + 1,
         }
 
+        const opCol: GridColDef = {
+            field: '__op',
+            headerName: 'op',
+            width: OP_COL_WIDTH,
+            minWidth: OP_COL_WIDTH,
+            maxWidth: OP_COL_WIDTH,
+            resizable: false,
+            sortable: false,
+            disableColumnMenu: true,
+            renderCell: (params) => (
+                <Typography
+                    component="span"
+                    variant="inherit"
+                    sx={{
+                        fontFamily: 'monospace',
+                        fontWeight: 600,
+                        color: ROW_KIND_COLORS[params.row.__kind as RowKind],
+                    }}
+                >
+                    {ROW_KIND_LABELS[params.row.__kind as RowKind]}
+                </Typography>
+            ),
+        }
+
         const dataCols: GridColDef[] = columns.map((col, i) => ({
             field: col.name,
             headerName: col.name,
-            width: estimateColumnWidth(col.name, snapshot, i),
+            width: estimateColumnWidth(col, snapshot, i),
             minWidth: MIN_COL_WIDTH,
             resizable: true,
+            align: isNumericType(col.logicalType) ? 'right' : 'left',
+            sortComparator: (a: DecodedValue, b: DecodedValue) => compareValues(a, b),
+            valueFormatter: (value: DecodedValue) => formatValue(value),
             renderCell: (params) => {
-                const val = params.value
-                if (val === null || val === undefined) {
+                const val = formatValue(params.value as DecodedValue)
+                if (val === null) {
                     return (
                         <Typography
                             component="span"
@@ -134,25 +283,42 @@ export default function ResultSet({
                         </Typography>
                     )
                 }
-                return String(val)
+                return val
             },
         }))
 
-        return [rowNumCol, ...dataCols]
-    }, [columns])
+        return isChangelogView ? [rowNumCol, opCol, ...dataCols] : [rowNumCol, ...dataCols]
+    }, [columns, isChangelogView])
 
     const gridRows = useMemo(
         () =>
-            rows.map((row, i) => {
-                const obj: Record<string, any> = { __rowId: i }
+            displayRows.map((row, i) => {
+                const obj: Record<string, any> = { __rowId: i, __kind: row.kind }
                 columns.forEach((col, j) => {
-                    obj[col.name] = formatCellValue(row.fields[j])
+                    obj[col.name] = decodeValue(col.logicalType, row.fields[j])
                 })
                 return obj
             }),
-        [columns, rows]
+        [columns, displayRows]
     )
 
+    // Cells are matched by row position and column name; a changed column set compares nothing
+    const changedCells = useMemo(() => {
+        if (!previousResult || isChangelogView) return null
+        const previousNames = previousResult.columns.map((col) => col.name)
+        if (previousNames.join('\0') !== columns.map((col) => col.name).join('\0')) return null
+        const changed = new Set<string>()
+        rows.forEach((row, i) => {
+            const previous = previousResult.rows[i]
+            columns.forEach((col, j) => {
+                if (!previous || JSON.stringify(previous.fields[j]) !== JSON.stringify(row.fields[j])) {
+                    changed.add(`${i}:${col.name}`)
+                }
+            })
+        })
+        return changed
+    }, [previousResult, isChangelogView, columns, rows])
+
     return (
         <Box sx={{ height, display: 'flex', flexDirection: 'column' }}>
             {/* Status bar */}
@@ -172,9 +338,65 @@ export default function ResultSet({
                 <Typography variant="caption" color="text.secondary">
                     {statusText()}
                 </Typography>
+                {operationStatus.length > 0 && <OperationStatusLabel history={operationStatus} />}
+                {retry && isRunning && (
+                    <Tooltip title={retry.reason}>
+                        <Typography variant="caption" color="warning.main">
+                            Connection problem — retrying ({retry.attempt}/{retry.maxAttempts}) in{' '}
+                            {(retry.delayMs / 1000).toFixed(1)}s
+                        </Typography>
+                    </Tooltip>
+                )}
+                {showChangelogStats && (
+                    <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                        +I {changelogStats.inserts.toLocaleString()} · ±U {changelogStats.updates.toLocaleString()} · -D{' '}
+                        {changelogStats.deletes.toLocaleString()}
+                    </Typography>
+                )}
+                {state === 'PAUSED' && (
+                    <Button size="small" onClick={onResume} sx={{ py: 0, fontSize: '0.75rem' }}>
+                        Fetch more
+                    </Button>
+                )}
+                {isChangelogView && droppedChangelogRows > 0 && (
+                    <Typography variant="caption" color="text.secondary">
+                        (showing last {changelogRows.length.toLocaleString()} changes)
+                    </Typography>
+                )}
+                <Box sx={{ ml: 'auto' }} />
+                {statementResults.length > 1 && (
+                    <ToggleButton
+                        size="small"
+                        value="log"
+                        selected={statementLogOpen}
+                        onChange={() => setStatementLogOpen((open) => !open)}
+                        sx={{ py: 0, px: 1, fontSize: '0.7rem', textTransform: 'none' }}
+                    >
+                        Statement log ({statementResults.length})
+                    </ToggleButton>
+                )}
+                {isQueryResult && columns.length > 0 && !showStatementLog && (
+                    <ToggleButtonGroup
+                        size="small"
+                        exclusive
+                        value={viewMode}
+                        onChange={(_, mode: ResultViewMode | null) => mode && onViewModeChange(mode)}
+                        sx={{ '& .MuiToggleButton-root': { py: 0, px: 1, fontSize: '0.7rem', textTransform: 'none' } }}
+                    >
+                        <ToggleButton value="table">Table</ToggleButton>
+                        <ToggleButton value="changelog">Changelog</ToggleButton>
+                    </ToggleButtonGroup>
+                )}
                 {jobId && (
-                    <Typography variant="caption" color="text.secondary" sx={{ ml: 'auto' }}>
-                        Job: {jobId}
+                    <Typography variant="caption" color="text.secondary">
+                        Job:{' '}
+                        {onShowJob ? (
+                            <Link component="button" variant="caption" onClick={onShowJob}>
+                                {jobId}
+                            </Link>
+                        ) : (
+                            jobId
+                        )}
                     </Typography>
                 )}
             </Box>
@@ -182,6 +404,62 @@ export default function ResultSet({
             {/* Progress bar */}
             {isRunning && <LinearProgress sx={{ height: 2 }} />}
 
+            {/* Savepoint from a stop with savepoint / drain */}
+            {savepointPath && (
+                <Alert
+                    severity="success"
+                    sx={{ mx: 1, mt: 0.5, py: 0, alignItems: 'center', '& .MuiAlert-message': { minWidth: 0 } }}
+                    action={
+                        <Button size="small" onClick={onUseSavepoint}>
+                            Restore on next run
+                        </Button>
+                    }
+                >
+                    <Typography variant="body2" sx={{ wordBreak: 'break-all' }}>
+                        Savepoint:{' '}
+                        <Box component="span" sx={{ fontFamily: 'monospace' }}>
+                            {savepointPath}
+                        </Box>
+                    </Typography>
+                </Alert>
+            )}
+
+            {/* Operation left running by an earlier page load */}
+            {orphanedOperation && !isRunning && (
+                <Alert
+                    severity="info"
+                    sx={{ mx: 1, mt: 0.5, py: 0, alignItems: 'center', '& .MuiAlert-message': { minWidth: 0 } }}
+                    action={
+                        <>
+                            <Button size="small" onClick={onReattach}>
+                                Reattach
+                            </Button>
+                            <Button size="small" color="error" onClick={onStopOrphaned}>
+                                {orphanedOperation.jobId ? 'Stop job' : 'Cancel'}
+                            </Button>
+                        </>
+                    }
+                >
+                    <Typography variant="body2">
+                        A statement was still running when the page was reloaded (started{' '}
+                        {formatDuration(Date.now() - orphanedOperation.startedAt)} ago
+                        {orphanedOperation.jobId ? `, job ${orphanedOperation.jobId}` : ''}):
+                    </Typography>
+                    <Typography
+                        variant="caption"
+                        sx={{
+                            display: 'block',
+                            fontFamily: 'monospace',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                            whiteSpace: 'nowrap',
+                        }}
+                    >
+                        {orphanedOperation.statement}
+                    </Typography>
+                </Alert>
+            )}
+
             {/* Error */}
             {error && (
                 <Alert
@@ -190,8 +468,8 @@ export default function ResultSet({
                         mx: 1,
                         mt: 0.5,
                         py: 0,
-                        flex: 1,
-                        minHeight: 0,
+                        // Leave the room to the log when it's open
+                        ...(showStatementLog ? { maxHeight: 120 } : { flex: 1, minHeight: 0 }),
                         overflow: 'auto',
                         alignItems: 'flex-start',
                         '& .MuiAlert-message': {
@@ -212,14 +490,20 @@ export default function ResultSet({
                         mx: 1,
                         mt: 0.5,
                         py: 0,
+                        '& .MuiAlert-message': {
+                            whiteSpace: 'pre-wrap',
+                        },
                     }}
                 >
                     {warning}
                 </Alert>
             )}
 
+            {/* Per-statement log of a script run */}
+            {showStatementLog && <StatementLog results={statementResults} />}
+
             {/* Data grid (only for query results) */}
-            {isQueryResult && columns.length > 0 && (
+            {isQueryResult && columns.length > 0 && !showStatementLog && (
                 <Box sx={{ flex: 1, minHeight: 0 }}>
                     <DataGrid
                         rows={gridRows}
@@ -229,6 +513,9 @@ export default function ResultSet({
                         disableRowSelectionOnClick
                         hideFooterSelectedRowCount
                         columnBufferPx={200}
+                        getCellClassName={(params) =>
+                            changedCells?.has(`${params.row.__rowId}:${params.field}`) ? 'changed' : ''
+                        }
                         sx={{
                             border: 'none',
                             '& .MuiDataGrid-cell': {
@@ -244,10 +531,17 @@ export default function ResultSet({
                                 borderRight: 1,
                                 borderColor: 'divider',
                             },
+                            '& .MuiDataGrid-cell[data-field="__op"]': {
+                                borderRight: 1,
+                                borderColor: 'divider',
+                            },
                             '& .MuiDataGrid-columnHeader[data-field="__rowNum"]': {
                                 borderRight: 1,
                                 borderColor: 'divider',
                             },
+                            '& .MuiDataGrid-cell.changed': {
+                                bgcolor: 'rgba(255, 221, 102, 0.25)',
+                            },
                             // Column separator visible for resize handles
                             '& .MuiDataGrid-columnSeparator': {
                                 visibility: 'visible',
@@ -257,17 +551,25 @@ export default function ResultSet({
                 </Box>
             )}
 
+            {/* EXPLAIN output */}
+            {!isQueryResult && !showStatementLog && state === 'FINISHED' && isExplainOutput(ddlResultText()) && (
+                <ExplainView text={ddlResultText()} />
+            )}
+
             {/* DDL success display */}
-            {!isQueryResult && (state === 'FINISHED' || state === 'CANCELLED') && (
-                <Box sx={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
-                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                        <CheckCircleOutlineIcon color="success" />
-                        <Typography variant="body2" color="text.secondary">
-                            {ddlResultText()}
-                        </Typography>
+            {!isQueryResult &&
+                !showStatementLog &&
+                (state === 'FINISHED' || state === 'CANCELLED') &&
+                !isExplainOutput(ddlResultText()) && (
+                    <Box sx={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                            <CheckCircleOutlineIcon color="success" />
+                            <Typography variant="body2" color="text.secondary">
+                                {ddlResultText()}
+                            </Typography>
+                        </Box>
                     </Box>
-                </Box>
-            )}
+                )}
 
             {/* Empty state */}
             {state === 'IDLE' && columns.length === 0 && !error && (
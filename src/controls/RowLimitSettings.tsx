@@ -0,0 +1,103 @@
+import React, { useState } from 'react'
+import {
+    Box,
+    FormControlLabel,
+    IconButton,
+    Popover,
+    Radio,
+    RadioGroup,
+    TextField,
+    Tooltip,
+    Typography,
+} from '@mui/material'
+import FormatListNumberedIcon from '@mui/icons-material/FormatListNumbered'
+import { DEFAULT_ROW_LIMIT, RowLimit, RowLimitPolicy } from '../api/FlinkQueryRunner'
+
+const MIN_ROWS = 1
+const MAX_ROWS = 1_000_000
+
+interface RowLimitSettingsProps {
+    rowLimit: RowLimit | undefined
+    onChange: (rowLimit: RowLimit) => void
+}
+
+const POLICY_LABELS: Record<RowLimitPolicy, string> = {
+    stop: 'Stop the query at the limit',
+    rolling: 'Keep the last N rows and continue',
+    pause: 'Pause fetching until asked for more',
+}
+
+export default function RowLimitSettings({ rowLimit, onChange }: RowLimitSettingsProps) {
+    const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null)
+    const current = rowLimit ?? DEFAULT_ROW_LIMIT
+    const [maxRowsText, setMaxRowsText] = useState(String(current.maxRows))
+
+    const handleOpen = (e: React.MouseEvent<HTMLElement>) => {
+        setMaxRowsText(String(current.maxRows))
+        setAnchorEl(e.currentTarget)
+    }
+
+    const commitMaxRows = () => {
+        const parsed = parseInt(maxRowsText, 10)
+        if (Number.isNaN(parsed)) {
+            setMaxRowsText(String(current.maxRows))
+            return
+        }
+        const clamped = Math.min(Math.max(parsed, MIN_ROWS), MAX_ROWS)
+        setMaxRowsText(String(clamped))
+        if (clamped !== current.maxRows) {
+            onChange({ ...current, maxRows: clamped })
+        }
+    }
+
+    return (
+        <>
+            <Tooltip title={`Row limit: ${current.maxRows.toLocaleString()} (${current.policy})`}>
+                <IconButton size="small" onClick={handleOpen}>
+                    <FormatListNumberedIcon fontSize="small" />
+                </IconButton>
+            </Tooltip>
+            <Popover
+                open={!!anchorEl}
+                anchorEl={anchorEl}
+                onClose={() => {
+                    commitMaxRows()
+                    setAnchorEl(null)
+                }}
+                anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+                transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+            >
+                <Box sx={{ p: 2, width: 300 }}>
+                    <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                        Row limit
+                    </Typography>
+                    <TextField
+                        label="Max rows (N)"
+                        type="number"
+                        size="small"
+                        fullWidth
+                        value={maxRowsText}
+                        onChange={(e) => setMaxRowsText(e.target.value)}
+                        onBlur={commitMaxRows}
+                        onKeyDown={(e) => e.key === 'Enter' && commitMaxRows()}
+                        slotProps={{ htmlInput: { min: MIN_ROWS, max: MAX_ROWS } }}
+                        sx={{ mb: 1 }}
+                    />
+                    <RadioGroup
+                        value={current.policy}
+                        onChange={(e) => onChange({ ...current, policy: e.target.value as RowLimitPolicy })}
+                    >
+                        {(Object.keys(POLICY_LABELS) as RowLimitPolicy[]).map((policy) => (
+                            <FormControlLabel
+                                key={policy}
+                                value={policy}
+                                control={<Radio size="small" />}
+                                label={<Typography variant="body2">{POLICY_LABELS[policy]}</Typography>}
+                            />
+                        ))}
+                    </RadioGroup>
+                </Box>
+            </Popover>
+        </>
+    )
+}
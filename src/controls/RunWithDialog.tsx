@@ -0,0 +1,262 @@
+import React, { useState } from 'react'
+import {
+    Autocomplete,
+    Box,
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    IconButton,
+    ListSubheader,
+    MenuItem,
+    TextField,
+    Tooltip,
+    Typography,
+} from '@mui/material'
+import AddIcon from '@mui/icons-material/Add'
+import DeleteIcon from '@mui/icons-material/Delete'
+import ExecutionPreset from '../schema/ExecutionPreset'
+
+type PresetScope = 'tab' | 'connection'
+
+interface ConfigEntry {
+    key: string
+    value: string
+}
+
+// Suggestions only — any key the gateway accepts can be typed in
+const COMMON_CONFIG_KEYS = [
+    'parallelism.default',
+    'execution.runtime-mode',
+    'table.exec.state.ttl',
+    'table.exec.resource.default-parallelism',
+    'table.exec.mini-batch.enabled',
+    'table.exec.mini-batch.allow-latency',
+    'table.exec.mini-batch.size',
+    'table.exec.sink.not-null-enforcer',
+    'table.local-time-zone',
+    'table.optimizer.agg-phase-strategy',
+    'pipeline.name',
+    'execution.checkpointing.interval',
+    'execution.savepoint.path',
+]
+
+interface RunWithDialogProps {
+    open: boolean
+    onClose: () => void
+    tabPresets: ExecutionPreset[]
+    onTabPresetsChange: (presets: ExecutionPreset[]) => void
+    /** Null when there is no active connection to save presets on. */
+    connectionName: string | null
+    connectionPresets: ExecutionPreset[]
+    onConnectionPresetsChange: (presets: ExecutionPreset[]) => void
+    onRun: (timeoutMs: number | undefined, config: Record<string, string>) => void
+}
+
+function toEntries(config: Record<string, string>): ConfigEntry[] {
+    return Object.entries(config).map(([key, value]) => ({ key, value }))
+}
+
+function toConfig(entries: ConfigEntry[]): Record<string, string> {
+    const config: Record<string, string> = {}
+    for (const { key, value } of entries) {
+        if (key.trim()) config[key.trim()] = value
+    }
+    return config
+}
+
+export default function RunWithDialog({
+    open,
+    onClose,
+    tabPresets,
+    onTabPresetsChange,
+    connectionName,
+    connectionPresets,
+    onConnectionPresetsChange,
+    onRun,
+}: RunWithDialogProps) {
+    // Settings survive closing the dialog, so re-running with a tweak is quick
+    const [timeoutText, setTimeoutText] = useState('')
+    const [entries, setEntries] = useState<ConfigEntry[]>([])
+    const [selectedPreset, setSelectedPreset] = useState('')
+    const [presetName, setPresetName] = useState('')
+    const [presetScope, setPresetScope] = useState<PresetScope>('tab')
+
+    const timeoutSeconds = timeoutText.trim() ? Number(timeoutText) : undefined
+    const timeoutInvalid = timeoutSeconds !== undefined && (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0)
+
+    const presetsFor = (scope: PresetScope) => (scope === 'tab' ? tabPresets : connectionPresets)
+    const savePresets = (scope: PresetScope, presets: ExecutionPreset[]) =>
+        scope === 'tab' ? onTabPresetsChange(presets) : onConnectionPresetsChange(presets)
+
+    const loadPreset = (value: string) => {
+        setSelectedPreset(value)
+        const [scope, ...rest] = value.split(':')
+        const name = rest.join(':')
+        const preset = presetsFor(scope as PresetScope).find((p) => p.name === name)
+        if (!preset) return
+        setTimeoutText(preset.timeoutMs !== undefined ? String(preset.timeoutMs / 1000) : '')
+        setEntries(toEntries(preset.config))
+        setPresetName(preset.name)
+        setPresetScope(scope as PresetScope)
+    }
+
+    const handleSavePreset = () => {
+        const name = presetName.trim()
+        if (!name) return
+        const preset: ExecutionPreset = {
+            name,
+            timeoutMs: timeoutSeconds !== undefined ? Math.round(timeoutSeconds * 1000) : undefined,
+            config: toConfig(entries),
+        }
+        // Saving under an existing name overwrites that preset
+        const others = presetsFor(presetScope).filter((p) => p.name !== name)
+        savePresets(presetScope, [...others, preset])
+        setSelectedPreset(`${presetScope}:${name}`)
+    }
+
+    const handleDeletePreset = () => {
+        const [scope, ...rest] = selectedPreset.split(':')
+        const name = rest.join(':')
+        savePresets(
+            scope as PresetScope,
+            presetsFor(scope as PresetScope).filter((p) => p.name !== name)
+        )
+        setSelectedPreset('')
+    }
+
+    const updateEntry = (index: number, update: Partial<ConfigEntry>) => {
+        setEntries((prev) => prev.map((entry, i) => (i === index ? { ...entry, ...update } : entry)))
+    }
+
+    const handleRun = () => {
+        onRun(timeoutSeconds !== undefined ? Math.round(timeoutSeconds * 1000) : undefined, toConfig(entries))
+        onClose()
+    }
+
+    const hasPresets = tabPresets.length > 0 || connectionPresets.length > 0
+    // The selected preset can disappear, e.g. when the active connection changes
+    const presetKeys = [
+        ...tabPresets.map((p) => `tab:${p.name}`),
+        ...connectionPresets.map((p) => `connection:${p.name}`),
+    ]
+    const selectedValue = presetKeys.includes(selectedPreset) ? selectedPreset : ''
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+            <DialogTitle>Run with…</DialogTitle>
+            <DialogContent>
+                <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mt: 1, mb: 2 }}>
+                    <TextField
+                        select
+                        label="Preset"
+                        size="small"
+                        fullWidth
+                        value={selectedValue}
+                        onChange={(e) => loadPreset(e.target.value)}
+                        disabled={!hasPresets}
+                        helperText={hasPresets ? undefined : 'No presets saved yet'}
+                    >
+                        {tabPresets.length > 0 && <ListSubheader>This tab</ListSubheader>}
+                        {tabPresets.map((p) => (
+                            <MenuItem key={`tab:${p.name}`} value={`tab:${p.name}`}>
+                                {p.name}
+                            </MenuItem>
+                        ))}
+                        {connectionPresets.length > 0 && <ListSubheader>Connection: {connectionName}</ListSubheader>}
+                        {connectionPresets.map((p) => (
+                            <MenuItem key={`connection:${p.name}`} value={`connection:${p.name}`}>
+                                {p.name}
+                            </MenuItem>
+                        ))}
+                    </TextField>
+                    <Tooltip title="Delete preset">
+                        <span>
+                            <IconButton size="small" onClick={handleDeletePreset} disabled={!selectedValue}>
+                                <DeleteIcon fontSize="small" />
+                            </IconButton>
+                        </span>
+                    </Tooltip>
+                </Box>
+
+                <TextField
+                    label="Execution timeout (seconds)"
+                    size="small"
+                    fullWidth
+                    type="number"
+                    value={timeoutText}
+                    onChange={(e) => setTimeoutText(e.target.value)}
+                    error={timeoutInvalid}
+                    helperText={timeoutInvalid ? 'Must be a positive number' : 'Leave empty to use the gateway default'}
+                    slotProps={{ htmlInput: { min: 0 } }}
+                    sx={{ mb: 2 }}
+                />
+
+                <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                    Execution config
+                </Typography>
+                {entries.map((entry, i) => (
+                    <Box key={i} sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 1 }}>
+                        <Autocomplete
+                            freeSolo
+                            options={COMMON_CONFIG_KEYS}
+                            inputValue={entry.key}
+                            onInputChange={(_, key) => updateEntry(i, { key })}
+                            sx={{ flex: 3 }}
+                            renderInput={(params) => <TextField {...params} label="Key" size="small" />}
+                        />
+                        <TextField
+                            label="Value"
+                            size="small"
+                            value={entry.value}
+                            onChange={(e) => updateEntry(i, { value: e.target.value })}
+                            sx={{ flex: 2 }}
+                        />
+                        <IconButton size="small" onClick={() => setEntries((prev) => prev.filter((_, j) => j !== i))}>
+                            <DeleteIcon fontSize="small" />
+                        </IconButton>
+                    </Box>
+                ))}
+                <Button
+                    size="small"
+                    startIcon={<AddIcon />}
+                    onClick={() => setEntries((prev) => [...prev, { key: '', value: '' }])}
+                >
+                    Add property
+                </Button>
+
+                <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mt: 3 }}>
+                    <TextField
+                        label="Save as preset"
+                        size="small"
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        sx={{ flex: 1 }}
+                    />
+                    <TextField
+                        select
+                        size="small"
+                        value={presetScope}
+                        onChange={(e) => setPresetScope(e.target.value as PresetScope)}
+                        sx={{ width: 160 }}
+                    >
+                        <MenuItem value="tab">This tab</MenuItem>
+                        <MenuItem value="connection" disabled={connectionName === null}>
+                            This connection
+                        </MenuItem>
+                    </TextField>
+                    <Button onClick={handleSavePreset} disabled={!presetName.trim() || timeoutInvalid}>
+                        Save
+                    </Button>
+                </Box>
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onClose}>Cancel</Button>
+                <Button onClick={handleRun} variant="contained" disabled={timeoutInvalid}>
+                    Run
+                </Button>
+            </DialogActions>
+        </Dialog>
+    )
+}
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react'
+import {
+    Alert,
+    Box,
+    Drawer,
+    FormControlLabel,
+    IconButton,
+    Switch,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    Tooltip,
+    Typography,
+} from '@mui/material'
+import CloseIcon from '@mui/icons-material/Close'
+import LinkOffIcon from '@mui/icons-material/LinkOff'
+import RestartAltIcon from '@mui/icons-material/RestartAlt'
+import ConnectionManager from '../schema/ConnectionManager'
+import GatewayConnection, { SessionSummary } from '../schema/GatewayConnection'
+import Queries from '../schema/Queries'
+import { CATALOG_SESSION_ID } from '../sql/SchemaProvider'
+import { JOBS_SESSION_ID } from '../sql/JobsProvider'
+import { getErrorMessage } from '../utils/Errors'
+
+const PANEL_WIDTH = 640
+const REFRESH_INTERVAL_MS = 1000
+
+interface SessionBrowserProps {
+    open: boolean
+    onClose: () => void
+    connectionManager: ConnectionManager
+    queries: Queries
+}
+
+function formatAge(since: number, now: number): string {
+    const seconds = Math.max(0, Math.floor((now - since) / 1000))
+    if (seconds < 60) return `${seconds}s`
+    const minutes = Math.floor(seconds / 60)
+    if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+/**
+ * Side panel listing every session handle the UI holds, across all connections,
+ * with the tab that owns it, its age and the outcome of the last heartbeat.
+ */
+export default function SessionBrowser({ open, onClose, connectionManager, queries }: SessionBrowserProps) {
+    const [now, setNow] = useState(Date.now())
+    const [closeOnUnload, setCloseOnUnload] = useState(connectionManager.getCloseSessionsOnUnload())
+    const [busy, setBusy] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    // Sessions and heartbeats change outside React; re-read them on a tick while open
+    useEffect(() => {
+        if (!open) return
+        setNow(Date.now())
+        const timer = setInterval(() => setNow(Date.now()), REFRESH_INTERVAL_MS)
+        return () => clearInterval(timer)
+    }, [open])
+
+    const tabTitle = (tabId: string): string => {
+        if (tabId === CATALOG_SESSION_ID) return 'Catalog browser'
+        if (tabId === JOBS_SESSION_ID) return 'Jobs panel'
+        return queries.getTabs().find((tab) => tab.id === tabId)?.title ?? '(closed tab)'
+    }
+
+    const runAction = async (key: string, action: () => Promise<unknown>) => {
+        setBusy(key)
+        setError(null)
+        try {
+            await action()
+        } catch (err) {
+            setError(getErrorMessage(err))
+        } finally {
+            setBusy(null)
+            setNow(Date.now())
+        }
+    }
+
+    const connections = connectionManager.getConnections()
+    const groups: { connection: GatewayConnection; sessions: SessionSummary[] }[] = connections
+        .map((connection) => ({ connection, sessions: connection.listSessions() }))
+        .filter((group) => group.sessions.length > 0)
+
+    return (
+        <Drawer anchor="right" open={open} onClose={onClose} sx={{ '& .MuiDrawer-paper': { width: PANEL_WIDTH } }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', px: 2, py: 1, borderBottom: 1, borderColor: 'divider' }}>
+                <Typography variant="subtitle1" sx={{ flex: 1 }}>
+                    Sessions
+                </Typography>
+                <IconButton size="small" onClick={onClose}>
+                    <CloseIcon fontSize="small" />
+                </IconButton>
+            </Box>
+
+            <Box
+                sx={{ p: 2, display: 'flex', flexDirection: 'column', gap: 2, minHeight: 0, flex: 1, overflow: 'auto' }}
+            >
+                <FormControlLabel
+                    control={
+                        <Switch
+                            size="small"
+                            checked={closeOnUnload}
+                            onChange={(e) => {
+                                connectionManager.setCloseSessionsOnUnload(e.target.checked)
+                                setCloseOnUnload(e.target.checked)
+                            }}
+                        />
+                    }
+                    label={<Typography variant="body2">Close all sessions when the page is closed</Typography>}
+                />
+                {error && (
+                    <Alert severity="error" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                        {error}
+                    </Alert>
+                )}
+                {groups.length === 0 && <Alert severity="info">No open sessions.</Alert>}
+
+                {groups.map(({ connection, sessions }) => (
+                    <Box key={connection.id}>
+                        <Typography variant="subtitle2">{connection.name}</Typography>
+                        <Typography variant="caption" color="text.secondary">
+                            {connection.url}
+                        </Typography>
+                        <Table size="small">
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>Tab</TableCell>
+                                    <TableCell>Session</TableCell>
+                                    <TableCell>Age</TableCell>
+                                    <TableCell>Last heartbeat</TableCell>
+                                    <TableCell sx={{ width: 72 }} />
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {sessions.map((session) => {
+                                    const key = `${connection.id}:${session.tabId}`
+                                    const heartbeat = session.lastHeartbeat
+                                    return (
+                                        <TableRow key={key}>
+                                            <TableCell>{tabTitle(session.tabId)}</TableCell>
+                                            <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}>
+                                                <Tooltip title={session.sessionHandle}>
+                                                    <span>{session.sessionHandle.substring(0, 8)}</span>
+                                                </Tooltip>
+                                            </TableCell>
+                                            <TableCell>
+                                                {session.openedAt ? formatAge(session.openedAt, now) : '—'}
+                                            </TableCell>
+                                            <TableCell>
+                                                {heartbeat === null ? (
+                                                    <Typography variant="body2" color="text.secondary">
+                                                        Not yet sent
+                                                    </Typography>
+                                                ) : (
+                                                    <Tooltip title={heartbeat.error ?? ''}>
+                                                        <Typography
+                                                            variant="body2"
+                                                            color={heartbeat.ok ? 'success.main' : 'error.main'}
+                                                        >
+                                                            {heartbeat.ok ? 'OK' : 'Failed'} ·{' '}
+                                                            {formatAge(heartbeat.at, now)} ago
+                                                        </Typography>
+                                                    </Tooltip>
+                                                )}
+                                            </TableCell>
+                                            <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                                                <Tooltip title="Recreate session">
+                                                    <span>
+                                                        <IconButton
+                                                            size="small"
+                                                            disabled={busy !== null}
+                                                            onClick={() =>
+                                                                runAction(key, () =>
+                                                                    connection.recreateSession(session.tabId)
+                                                                )
+                                                            }
+                                                        >
+                                                            <RestartAltIcon fontSize="small" />
+                                                        </IconButton>
+                                                    </span>
+                                                </Tooltip>
+                                                <Tooltip title="Close session">
+                                                    <span>
+                                                        <IconButton
+                                                            size="small"
+                                                            disabled={busy !== null}
+                                                            onClick={() =>
+                                                                runAction(key, () =>
+                                                                    connection.closeSession(session.tabId)
+                                                                )
+                                                            }
+                                                        >
+                                                            <LinkOffIcon fontSize="small" />
+                                                        </IconButton>
+                                                    </span>
+                                                </Tooltip>
+                                            </TableCell>
+                                        </TableRow>
+                                    )
+                                })}
+                            </TableBody>
+                        </Table>
+                    </Box>
+                ))}
+            </Box>
+        </Drawer>
+    )
+}
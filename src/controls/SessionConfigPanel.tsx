@@ -0,0 +1,313 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import {
+    Alert,
+    Box,
+    Button,
+    CircularProgress,
+    Drawer,
+    FormControlLabel,
+    IconButton,
+    Switch,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    TextField,
+    Tooltip,
+    Typography,
+} from '@mui/material'
+import CloseIcon from '@mui/icons-material/Close'
+import EditIcon from '@mui/icons-material/Edit'
+import CheckIcon from '@mui/icons-material/Check'
+import RefreshIcon from '@mui/icons-material/Refresh'
+import RestartAltIcon from '@mui/icons-material/RestartAlt'
+import GatewayConnection from '../schema/GatewayConnection'
+import { getErrorMessage } from '../utils/Errors'
+
+const PANEL_WIDTH = 560
+
+interface SessionConfigPanelProps {
+    open: boolean
+    onClose: () => void
+    connection: GatewayConnection | undefined
+    tabId: string
+    /** Resolves the tab's session handle, opening a session if needed. */
+    acquireSession: () => Promise<string>
+}
+
+function quote(text: string): string {
+    return `'${text.replace(/'/g, "''")}'`
+}
+
+/**
+ * Side panel listing the tab session's effective properties. Edits are applied with
+ * SET / RESET through configure-session; values that differ from what a fresh
+ * session starts with are highlighted.
+ */
+export default function SessionConfigPanel({
+    open,
+    onClose,
+    connection,
+    tabId,
+    acquireSession,
+}: SessionConfigPanelProps) {
+    const [properties, setProperties] = useState<Record<string, string>>({})
+    const [defaults, setDefaults] = useState<Record<string, string> | null>(null)
+    const [isLoading, setIsLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [filter, setFilter] = useState('')
+    const [changedOnly, setChangedOnly] = useState(false)
+    const [editingKey, setEditingKey] = useState<string | null>(null)
+    const [editValue, setEditValue] = useState('')
+    const [newKey, setNewKey] = useState('')
+    const [newValue, setNewValue] = useState('')
+
+    const canEdit = !!connection && connection.supports('configureSession')
+
+    const load = useCallback(async () => {
+        if (!connection) return
+        setIsLoading(true)
+        setError(null)
+        try {
+            const sessionHandle = await acquireSession()
+            const [config, defaultConfig] = await Promise.all([
+                connection.client.getSessionConfig(sessionHandle),
+                // Highlighting is a nicety; the list still works without it
+                connection.getDefaultSessionConfig().catch(() => null),
+            ])
+            setProperties(config.properties)
+            setDefaults(defaultConfig)
+        } catch (err) {
+            setError(getErrorMessage(err))
+        } finally {
+            setIsLoading(false)
+        }
+    }, [connection, acquireSession])
+
+    // Reload when the panel opens, not when the callbacks are recreated
+    useEffect(() => {
+        if (open) {
+            setEditingKey(null)
+            load()
+        }
+    }, [open, connection]) // eslint-disable-line react-hooks/exhaustive-deps
+
+    const configure = async (statement: string) => {
+        if (!connection) return
+        setError(null)
+        try {
+            await acquireSession()
+            // Goes through the connection so the change is journaled and survives session recreation
+            await connection.configureSession(tabId, statement)
+            setEditingKey(null)
+            await load()
+        } catch (err) {
+            setError(getErrorMessage(err))
+        }
+    }
+
+    const handleAdd = async () => {
+        const key = newKey.trim()
+        if (!key) return
+        await configure(`SET ${quote(key)} = ${quote(newValue)}`)
+        setNewKey('')
+        setNewValue('')
+    }
+
+    const isChanged = useCallback(
+        (key: string) => defaults !== null && defaults[key] !== properties[key],
+        [defaults, properties]
+    )
+
+    const visibleKeys = useMemo(() => {
+        const needle = filter.trim().toLowerCase()
+        return Object.keys(properties)
+            .filter(
+                (key) => !needle || key.toLowerCase().includes(needle) || properties[key].toLowerCase().includes(needle)
+            )
+            .filter((key) => !changedOnly || isChanged(key))
+            .sort()
+    }, [properties, filter, changedOnly, isChanged])
+
+    const changedCount = useMemo(() => Object.keys(properties).filter(isChanged).length, [properties, isChanged])
+
+    return (
+        <Drawer anchor="right" open={open} onClose={onClose} sx={{ '& .MuiDrawer-paper': { width: PANEL_WIDTH } }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', px: 2, py: 1, borderBottom: 1, borderColor: 'divider' }}>
+                <Typography variant="subtitle1" sx={{ flex: 1 }}>
+                    Session configuration
+                </Typography>
+                <Tooltip title="Reload">
+                    <span>
+                        <IconButton size="small" onClick={load} disabled={isLoading || !connection}>
+                            <RefreshIcon fontSize="small" />
+                        </IconButton>
+                    </span>
+                </Tooltip>
+                <IconButton size="small" onClick={onClose}>
+                    <CloseIcon fontSize="small" />
+                </IconButton>
+            </Box>
+
+            <Box sx={{ p: 2, display: 'flex', flexDirection: 'column', gap: 1, minHeight: 0, flex: 1 }}>
+                {!connection && <Alert severity="info">No gateway connection selected.</Alert>}
+                {connection && !canEdit && (
+                    <Alert severity="info">
+                        This gateway's REST API ({connection.client.getApiVersion()}) can't configure sessions; the
+                        properties are read-only.
+                    </Alert>
+                )}
+                {error && (
+                    <Alert severity="error" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                        {error}
+                    </Alert>
+                )}
+
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <TextField
+                        size="small"
+                        placeholder="Filter keys or values"
+                        value={filter}
+                        onChange={(e) => setFilter(e.target.value)}
+                        sx={{ flex: 1 }}
+                    />
+                    <FormControlLabel
+                        control={
+                            <Switch
+                                size="small"
+                                checked={changedOnly}
+                                onChange={(e) => setChangedOnly(e.target.checked)}
+                                disabled={defaults === null}
+                            />
+                        }
+                        label={<Typography variant="body2">Changed only ({changedCount})</Typography>}
+                    />
+                </Box>
+
+                <Box sx={{ flex: 1, minHeight: 0, overflow: 'auto' }}>
+                    {isLoading && Object.keys(properties).length === 0 ? (
+                        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                            <CircularProgress size={24} />
+                        </Box>
+                    ) : (
+                        <Table size="small" stickyHeader>
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>Key</TableCell>
+                                    <TableCell>Value</TableCell>
+                                    <TableCell sx={{ width: 72 }} />
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {visibleKeys.map((key) => {
+                                    const changed = isChanged(key)
+                                    const defaultValue = defaults?.[key]
+                                    return (
+                                        <TableRow key={key} sx={changed ? { bgcolor: 'action.selected' } : undefined}>
+                                            <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                                                {key}
+                                            </TableCell>
+                                            <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                                                {editingKey === key ? (
+                                                    <TextField
+                                                        size="small"
+                                                        fullWidth
+                                                        autoFocus
+                                                        value={editValue}
+                                                        onChange={(e) => setEditValue(e.target.value)}
+                                                        onKeyDown={(e) => {
+                                                            if (e.key === 'Enter') {
+                                                                configure(`SET ${quote(key)} = ${quote(editValue)}`)
+                                                            } else if (e.key === 'Escape') {
+                                                                setEditingKey(null)
+                                                            }
+                                                        }}
+                                                    />
+                                                ) : (
+                                                    <Tooltip
+                                                        title={
+                                                            changed
+                                                                ? defaultValue === undefined
+                                                                    ? 'Not set in a fresh session'
+                                                                    : `Default: ${defaultValue}`
+                                                                : ''
+                                                        }
+                                                    >
+                                                        <Box
+                                                            component="span"
+                                                            sx={changed ? { fontWeight: 600 } : undefined}
+                                                        >
+                                                            {properties[key]}
+                                                        </Box>
+                                                    </Tooltip>
+                                                )}
+                                            </TableCell>
+                                            <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                                                {editingKey === key ? (
+                                                    <IconButton
+                                                        size="small"
+                                                        onClick={() =>
+                                                            configure(`SET ${quote(key)} = ${quote(editValue)}`)
+                                                        }
+                                                    >
+                                                        <CheckIcon fontSize="small" />
+                                                    </IconButton>
+                                                ) : (
+                                                    <IconButton
+                                                        size="small"
+                                                        disabled={!canEdit}
+                                                        onClick={() => {
+                                                            setEditingKey(key)
+                                                            setEditValue(properties[key])
+                                                        }}
+                                                    >
+                                                        <EditIcon fontSize="small" />
+                                                    </IconButton>
+                                                )}
+                                                <Tooltip title="Reset to default">
+                                                    <span>
+                                                        <IconButton
+                                                            size="small"
+                                                            disabled={!canEdit || !changed}
+                                                            onClick={() => configure(`RESET ${quote(key)}`)}
+                                                        >
+                                                            <RestartAltIcon fontSize="small" />
+                                                        </IconButton>
+                                                    </span>
+                                                </Tooltip>
+                                            </TableCell>
+                                        </TableRow>
+                                    )
+                                })}
+                            </TableBody>
+                        </Table>
+                    )}
+                </Box>
+
+                <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                    <TextField
+                        size="small"
+                        label="Key"
+                        value={newKey}
+                        onChange={(e) => setNewKey(e.target.value)}
+                        sx={{ flex: 3 }}
+                        disabled={!canEdit}
+                    />
+                    <TextField
+                        size="small"
+                        label="Value"
+                        value={newValue}
+                        onChange={(e) => setNewValue(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                        sx={{ flex: 2 }}
+                        disabled={!canEdit}
+                    />
+                    <Button onClick={handleAdd} disabled={!canEdit || !newKey.trim()}>
+                        Set
+                    </Button>
+                </Box>
+            </Box>
+        </Drawer>
+    )
+}
@@ -0,0 +1,164 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { Box, CircularProgress, IconButton, Tooltip, Typography } from '@mui/material'
+import CancelOutlinedIcon from '@mui/icons-material/CancelOutlined'
+import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline'
+import ChevronRightIcon from '@mui/icons-material/ChevronRight'
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline'
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore'
+import { DataGrid, GridColDef } from '@mui/x-data-grid'
+import { StatementResult } from '../api/FlinkQueryRunner'
+import decodeValue, { formatValue } from '../api/decodeValue'
+
+const GRID_HEIGHT = 240
+const MAX_COL_WIDTH = 300
+const CHAR_WIDTH = 8
+
+interface StatementLogProps {
+    results: StatementResult[]
+}
+
+function formatElapsed(ms: number): string {
+    return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`
+}
+
+/** A non-query statement's single-value output (e.g. OK), shown inline rather than as a grid. */
+function singleValue(result: StatementResult): string | null {
+    if (result.isQueryResult || result.columns.length !== 1 || result.rows.length !== 1) return null
+    return formatValue(decodeValue(result.columns[0].logicalType, result.rows[0].fields[0]))
+}
+
+function StatusIcon({ result }: { result: StatementResult }) {
+    switch (result.state) {
+        case 'FINISHED':
+            return result.error ? (
+                <ErrorOutlineIcon fontSize="small" color="warning" />
+            ) : (
+                <CheckCircleOutlineIcon fontSize="small" color="success" />
+            )
+        case 'FAILED':
+            return <ErrorOutlineIcon fontSize="small" color="error" />
+        case 'CANCELLED':
+            return <CancelOutlinedIcon fontSize="small" color="disabled" />
+        default:
+            return <CircularProgress size={16} />
+    }
+}
+
+function StatementGrid({ result }: { result: StatementResult }) {
+    const columns: GridColDef[] = useMemo(
+        () =>
+            result.columns.map((col, i) => ({
+                field: `c${i}`,
+                headerName: col.name,
+                width: Math.min(Math.max(col.name.length * CHAR_WIDTH + 40, 100), MAX_COL_WIDTH),
+            })),
+        [result.columns]
+    )
+    const rows = useMemo(
+        () =>
+            result.rows.map((row, i) => {
+                const obj: Record<string, unknown> = { __rowId: i }
+                result.columns.forEach((col, j) => {
+                    obj[`c${j}`] = formatValue(decodeValue(col.logicalType, row.fields[j])) ?? 'null'
+                })
+                return obj
+            }),
+        [result.columns, result.rows]
+    )
+
+    return (
+        <Box sx={{ height: GRID_HEIGHT }}>
+            <DataGrid
+                rows={rows}
+                columns={columns}
+                getRowId={(row) => row.__rowId as number}
+                density="compact"
+                disableRowSelectionOnClick
+                hideFooterSelectedRowCount
+                sx={{ '& .MuiDataGrid-cell': { fontSize: '0.8rem' } }}
+            />
+        </Box>
+    )
+}
+
+function StatementEntry({ result }: { result: StatementResult }) {
+    const value = singleValue(result)
+    const hasGrid = result.columns.length > 0 && result.rows.length > 0 && value === null
+    // Failures are what a script's log is usually opened for
+    const [expanded, setExpanded] = useState(result.state === 'FAILED')
+    // The entry is usually mounted while still running, so also expand it once it fails
+    useEffect(() => {
+        if (result.state === 'FAILED') setExpanded(true)
+    }, [result.state])
+    const canExpand = hasGrid || !!result.error
+    const firstLine = result.statement.split('\n').find((line) => line.trim() && !line.trim().startsWith('--'))
+
+    return (
+        <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, px: 1, py: 0.5 }}>
+                <IconButton
+                    size="small"
+                    onClick={() => setExpanded((e) => !e)}
+                    sx={{ visibility: canExpand ? 'visible' : 'hidden', p: 0 }}
+                >
+                    {expanded ? <ExpandMoreIcon fontSize="small" /> : <ChevronRightIcon fontSize="small" />}
+                </IconButton>
+                <StatusIcon result={result} />
+                <Typography variant="caption" color="text.secondary" sx={{ width: 28, textAlign: 'right' }}>
+                    {result.index + 1}
+                </Typography>
+                <Tooltip
+                    title={result.statement}
+                    slotProps={{ tooltip: { sx: { whiteSpace: 'pre-wrap', fontFamily: 'monospace' } } }}
+                >
+                    <Typography variant="body2" noWrap sx={{ flex: 1, minWidth: 0, fontFamily: 'monospace' }}>
+                        {firstLine ?? result.statement}
+                    </Typography>
+                </Tooltip>
+                {value !== null && (
+                    <Typography variant="caption" color="text.secondary">
+                        {value}
+                    </Typography>
+                )}
+                {hasGrid && (
+                    <Typography variant="caption" color="text.secondary">
+                        {result.rows.length.toLocaleString()} rows
+                    </Typography>
+                )}
+                {result.jobId && (
+                    <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                        Job {result.jobId}
+                    </Typography>
+                )}
+                <Typography variant="caption" color="text.secondary" sx={{ width: 64, textAlign: 'right' }}>
+                    {result.finishedAt !== null ? formatElapsed(result.finishedAt - result.startedAt) : ''}
+                </Typography>
+            </Box>
+            {expanded && (
+                <Box sx={{ pl: 5, pr: 1, pb: 1 }}>
+                    {result.error && (
+                        <Typography
+                            variant="body2"
+                            color="error"
+                            sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word', mb: hasGrid ? 1 : 0 }}
+                        >
+                            {result.error}
+                        </Typography>
+                    )}
+                    {hasGrid && <StatementGrid result={result} />}
+                </Box>
+            )}
+        </Box>
+    )
+}
+
+/** Per-statement outcome of a script run: status, duration, job id, error and result of each statement. */
+export default function StatementLog({ results }: StatementLogProps) {
+    return (
+        <Box sx={{ flex: 1, minHeight: 0, overflow: 'auto' }}>
+            {results.map((result) => (
+                <StatementEntry key={result.index} result={result} />
+            ))}
+        </Box>
+    )
+}
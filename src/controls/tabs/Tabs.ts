@@ -15,6 +15,7 @@ abstract class Tabs<T extends TabInfo> {
 
     abstract loadTabs(): T[]
     abstract saveTabs(): void
+    abstract saveTab(tab: T): void
     abstract deleteTabFromStorage(tabId: string): void
     abstract createNewTab(): T
 
@@ -66,7 +67,7 @@ abstract class Tabs<T extends TabInfo> {
         const tabIndex = this.tabs.findIndex((t) => t.id === tabId)
         if (tabIndex !== -1) {
             this.tabs[tabIndex] = { ...this.tabs[tabIndex], ...updates }
-            this.saveTabs()
+            this.saveTab(this.tabs[tabIndex])
             if (!silent) {
                 this.notifyListeners()
             }
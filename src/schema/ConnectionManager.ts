@@ -1,22 +1,44 @@
-import GatewayConnection from './GatewayConnection'
-import { FlinkSqlGatewayError } from '../api/FlinkSqlGatewayClient'
+import GatewayConnection, { GatewayConnectionInfo, SessionDefaults } from './GatewayConnection'
+import { FlinkSqlGatewayError, GatewayAuth } from '../api/FlinkSqlGatewayClient'
+import ExecutionPreset from './ExecutionPreset'
+import { RetryPolicy } from '../api/RetryPolicy'
 
 const STORAGE_KEY = 'flink_gateway_connections'
 const ACTIVE_CONNECTION_KEY = 'flink_active_connection'
+const CLOSE_ON_UNLOAD_KEY = 'flink_close_sessions_on_unload'
 
 /**
  * Manages multiple Flink SQL Gateway connections.
  * Persists connection definitions (not sessions) to localStorage.
+ * Note that auth settings, including passwords and tokens, are stored there in plain text.
  */
 class ConnectionManager {
     private connections: Map<string, GatewayConnection> = new Map()
     private activeConnectionId: string | null = null
     private changeListeners: (() => void)[] = []
+    private closeSessionsOnUnload = localStorage.getItem(CLOSE_ON_UNLOAD_KEY) === 'true'
 
     constructor() {
         this.loadFromStorage()
     }
 
+    /** Call on the window's pagehide event; the owner registers it so it can also remove it. */
+    handlePageHide(): void {
+        if (!this.closeSessionsOnUnload) return
+        this.connections.forEach((connection) => connection.closeAllOnUnload())
+    }
+
+    getCloseSessionsOnUnload(): boolean {
+        return this.closeSessionsOnUnload
+    }
+
+    /** Close every session when the page is closed or reloaded, instead of leaving them to time out. */
+    setCloseSessionsOnUnload(enabled: boolean): void {
+        this.closeSessionsOnUnload = enabled
+        localStorage.setItem(CLOSE_ON_UNLOAD_KEY, String(enabled))
+        this.notifyListeners()
+    }
+
     // ── Accessors ──
 
     getConnections(): GatewayConnection[] {
@@ -40,8 +62,24 @@ class ConnectionManager {
 
     // ── Mutations ──
 
-    addConnection(name: string, url: string): GatewayConnection {
-        const connection = new GatewayConnection(name, url)
+    addConnection(
+        name: string,
+        url: string,
+        auth?: GatewayAuth,
+        sessionDefaults?: SessionDefaults,
+        jobManagerUrl?: string,
+        retryPolicy?: RetryPolicy
+    ): GatewayConnection {
+        const connection = new GatewayConnection(
+            name,
+            url,
+            undefined,
+            auth,
+            undefined,
+            sessionDefaults,
+            jobManagerUrl,
+            retryPolicy
+        )
         this.connections.set(connection.id, connection)
         if (this.connections.size === 1) {
             this.activeConnectionId = connection.id
@@ -51,6 +89,47 @@ class ConnectionManager {
         return connection
     }
 
+    /**
+     * Replace a connection's settings. Its sessions belong to the old client,
+     * so they are closed and reopened lazily against the new settings.
+     */
+    updateConnection(
+        id: string,
+        name: string,
+        url: string,
+        auth?: GatewayAuth,
+        sessionDefaults?: SessionDefaults,
+        jobManagerUrl?: string,
+        retryPolicy?: RetryPolicy
+    ): GatewayConnection | undefined {
+        const existing = this.connections.get(id)
+        if (!existing) return undefined
+
+        existing.disconnectAll()
+        const connection = new GatewayConnection(
+            name,
+            url,
+            id,
+            auth,
+            existing.getExecutionPresets(),
+            sessionDefaults,
+            jobManagerUrl,
+            retryPolicy
+        )
+        this.connections.set(id, connection)
+        this.saveToStorage()
+        this.notifyListeners()
+        return connection
+    }
+
+    setExecutionPresets(id: string, presets: ExecutionPreset[]): void {
+        const connection = this.connections.get(id)
+        if (!connection) return
+        connection.setExecutionPresets(presets)
+        this.saveToStorage()
+        this.notifyListeners()
+    }
+
     removeConnection(id: string): void {
         const connection = this.connections.get(id)
         if (connection) {
@@ -105,7 +184,7 @@ class ConnectionManager {
         try {
             const raw = localStorage.getItem(STORAGE_KEY)
             if (raw) {
-                const items = JSON.parse(raw) as { id: string; name: string; url: string }[]
+                const items = JSON.parse(raw) as GatewayConnectionInfo[]
                 items.forEach((item) => {
                     const connection = GatewayConnection.fromJSON(item)
                     this.connections.set(connection.id, connection)
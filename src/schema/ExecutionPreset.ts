@@ -0,0 +1,12 @@
+/**
+ * Named execution settings sent with a statement instead of SET statements:
+ * a gateway-side execution timeout and per-statement execution config.
+ */
+interface ExecutionPreset {
+    name: string
+    /** Milliseconds; omitted to use the gateway's default. */
+    timeoutMs?: number
+    config: Record<string, string>
+}
+
+export default ExecutionPreset
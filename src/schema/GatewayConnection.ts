@@ -1,33 +1,193 @@
 import { v4 as uuidv4 } from 'uuid'
-import FlinkSqlGatewayClient from '../api/FlinkSqlGatewayClient'
-import { isSessionExpired } from '../utils/Errors'
+import FlinkSqlGatewayClient, {
+    FlinkSqlGatewayError,
+    GatewayAuth,
+    GatewayFeature,
+    NO_AUTH,
+} from '../api/FlinkSqlGatewayClient'
+import { GetInfoResponseBody } from '../api/FlinkSqlGatewayTypes'
+import JobManagerClient from '../api/JobManagerClient'
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from '../api/RetryPolicy'
+import { getErrorMessage, isSessionExpired } from '../utils/Errors'
+import isSessionStateStatement from '../sql/isSessionStateStatement'
+import splitStatements from '../sql/splitStatements'
+import ExecutionPreset from './ExecutionPreset'
 
 export interface GatewayConnectionInfo {
     id: string
     name: string
     url: string
+    auth?: GatewayAuth
+    executionPresets?: ExecutionPreset[]
+    sessionDefaults?: SessionDefaults
+    /** JobManager REST endpoint for live job metrics, e.g. http://localhost:8081 */
+    jobManagerUrl?: string
+    /** How idempotent gateway requests are retried; the default policy when omitted. */
+    retryPolicy?: RetryPolicy
 }
 
+/** Setup applied to every session opened on a connection, before it is used. */
+export interface SessionDefaults {
+    /** Statements run through configure-session, e.g. CREATE CATALOG, ADD JAR, SET. */
+    initScript: string
+    /** Properties passed when the session is opened. */
+    properties: Record<string, string>
+}
+
+export const EMPTY_SESSION_DEFAULTS: SessionDefaults = { initScript: '', properties: {} }
+
+export interface SessionInitFailure {
+    statement: string
+    error: string
+}
+
+/** Outcome of replaying a tab's session journal into a recreated session. */
+export interface SessionReplayReport {
+    restored: string[]
+    failed: { statement: string; error: string }[]
+}
+
+export interface HeartbeatResult {
+    at: number
+    ok: boolean
+    error?: string
+}
+
+/** A live session this UI holds, as listed in the session browser. */
+export interface SessionSummary {
+    tabId: string
+    sessionHandle: string
+    openedAt: number
+    lastHeartbeat: HeartbeatResult | null
+}
+
+export type SessionRecreatedListener = (tabId: string, report: SessionReplayReport) => void
+
 /**
  * Represents a connection to a single Flink SQL Gateway instance.
  * Manages multiple sessions (one per tab) with independent heartbeats.
+ *
+ * Each session keeps a journal of the state-changing statements run in it (SET,
+ * USE, ADD JAR, CREATE TEMPORARY ...), which is replayed when the session has
+ * to be recreated after expiring.
  */
 class GatewayConnection {
     readonly id: string
     readonly name: string
     readonly url: string
+    readonly auth: GatewayAuth
     readonly client: FlinkSqlGatewayClient
+    readonly sessionDefaults: SessionDefaults
+    readonly jobManagerUrl: string | undefined
+    readonly retryPolicy: RetryPolicy
+    /** Null when no JobManager URL is configured; job metrics are unavailable then. */
+    readonly jobManager: JobManagerClient | null
 
     private sessions: Map<string, string> = new Map() // tabId -> sessionHandle
+    private starting: Map<string, Promise<string>> = new Map() // tabId -> session still running its init script / replay
+    private sessionMeta: Map<string, Pick<SessionSummary, 'openedAt' | 'lastHeartbeat'>> = new Map() // tabId -> meta
+    private journals: Map<string, string[]> = new Map() // tabId -> state-changing statements, in order
+    private initFailures: Map<string, SessionInitFailure[]> = new Map() // tabId -> failed init statements
+    private recreatedListeners: SessionRecreatedListener[] = []
     private heartbeatInterval: ReturnType<typeof setInterval> | null = null
     private visibilityHandler: (() => void) | null = null
+    private negotiation: Promise<void> | null = null
+    private gatewayInfo: GetInfoResponseBody | null = null
+    private executionPresets: ExecutionPreset[]
+    private defaultSessionConfig: Promise<Record<string, string>> | null = null
     private static readonly HEARTBEAT_INTERVAL_MS = 30_000
 
-    constructor(name: string, url: string, id?: string) {
+    constructor(
+        name: string,
+        url: string,
+        id?: string,
+        auth: GatewayAuth = NO_AUTH,
+        executionPresets: ExecutionPreset[] = [],
+        sessionDefaults: SessionDefaults = EMPTY_SESSION_DEFAULTS,
+        jobManagerUrl?: string,
+        retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+    ) {
         this.id = id ?? uuidv4()
         this.name = name
         this.url = url
-        this.client = new FlinkSqlGatewayClient(url)
+        this.auth = auth
+        this.retryPolicy = retryPolicy
+        this.client = new FlinkSqlGatewayClient(url, auth, retryPolicy)
+        this.executionPresets = executionPresets
+        this.sessionDefaults = sessionDefaults
+        this.jobManagerUrl = jobManagerUrl || undefined
+        this.jobManager = this.jobManagerUrl ? new JobManagerClient(this.jobManagerUrl) : null
+    }
+
+    getExecutionPresets(): ExecutionPreset[] {
+        return this.executionPresets
+    }
+
+    setExecutionPresets(presets: ExecutionPreset[]): void {
+        this.executionPresets = presets
+    }
+
+    /**
+     * Pick the REST API version and fetch gateway info, once per connection.
+     * Runs before the first session is opened; a gateway that doesn't expose
+     * /api_versions (404) keeps the client's default version.
+     */
+    ensureNegotiated(): Promise<void> {
+        if (!this.negotiation) {
+            this.negotiation = this.negotiate().catch((error) => {
+                this.negotiation = null
+                throw error
+            })
+        }
+        return this.negotiation
+    }
+
+    private async negotiate(): Promise<void> {
+        try {
+            await this.client.negotiateApiVersion()
+        } catch (error) {
+            if (!(error instanceof FlinkSqlGatewayError && error.statusCode === 404)) {
+                throw error
+            }
+        }
+        try {
+            this.gatewayInfo = await this.client.getInfo()
+        } catch {
+            // Informational only
+        }
+    }
+
+    getGatewayInfo(): GetInfoResponseBody | null {
+        return this.gatewayInfo
+    }
+
+    supports(feature: GatewayFeature): boolean {
+        return this.client.supports(feature)
+    }
+
+    /**
+     * Properties a fresh session starts with, read once from a short-lived session.
+     * Used to tell which of a tab's session properties have been changed.
+     */
+    getDefaultSessionConfig(): Promise<Record<string, string>> {
+        if (!this.defaultSessionConfig) {
+            this.defaultSessionConfig = this.readDefaultSessionConfig().catch((error) => {
+                this.defaultSessionConfig = null
+                throw error
+            })
+        }
+        return this.defaultSessionConfig
+    }
+
+    private async readDefaultSessionConfig(): Promise<Record<string, string>> {
+        await this.ensureNegotiated()
+        const { sessionHandle } = await this.client.openSession({ sessionName: '__defaults__' })
+        try {
+            const { properties } = await this.client.getSessionConfig(sessionHandle)
+            return properties
+        } finally {
+            this.client.closeSession(sessionHandle).catch((error) => console.error('Error closing session:', error))
+        }
     }
 
     getSessionHandle(tabId: string): string | null {
@@ -38,15 +198,27 @@ class GatewayConnection {
         return this.sessions.has(tabId)
     }
 
+    listSessions(): SessionSummary[] {
+        return Array.from(this.sessions.entries()).map(([tabId, sessionHandle]) => ({
+            tabId,
+            sessionHandle,
+            openedAt: this.sessionMeta.get(tabId)?.openedAt ?? 0,
+            lastHeartbeat: this.sessionMeta.get(tabId)?.lastHeartbeat ?? null,
+        }))
+    }
+
     async validateSession(tabId: string): Promise<string | null> {
         const sessionHandle = this.sessions.get(tabId)
-        if (!sessionHandle) return null
+        if (!sessionHandle) {
+            const pending = this.starting.get(tabId)
+            return pending ? pending.catch(() => null) : null
+        }
         try {
-            await this.client.heartbeat(sessionHandle)
+            await this.heartbeat(tabId, sessionHandle)
             return sessionHandle
         } catch (error) {
             if (isSessionExpired(error)) {
-                this.sessions.delete(tabId)
+                this.forgetSession(tabId)
                 return null
             }
             // Non-expiry errors (e.g. network) — assume session is still valid
@@ -59,21 +231,147 @@ class GatewayConnection {
         if (existing) {
             return existing
         }
+        const pending = this.starting.get(tabId)
+        if (pending) {
+            return pending
+        }
 
+        // A journal without a session means the previous one expired (see validateSession)
+        return this.startSession(tabId, properties)
+    }
+
+    /**
+     * Open a session and bring it up to date. Concurrent callers share the same start,
+     * and the handle is only published once the init script and journal replay are done,
+     * so no statement runs in a half-initialised session.
+     */
+    private startSession(tabId: string, properties?: Record<string, string>): Promise<string> {
+        const pending = this.starting.get(tabId)
+        if (pending) return pending
+        const start = this.initializeSession(tabId, properties).finally(() => this.starting.delete(tabId))
+        this.starting.set(tabId, start)
+        return start
+    }
+
+    private async initializeSession(tabId: string, properties?: Record<string, string>): Promise<string> {
+        await this.ensureNegotiated()
+        const merged = { ...this.sessionDefaults.properties, ...properties }
         const response = await this.client.openSession({
             sessionName: `tab-${tabId}`,
-            properties,
+            properties: Object.keys(merged).length > 0 ? merged : undefined,
         })
+        await this.runInitScript(tabId, response.sessionHandle)
+
+        const journal = this.journals.get(tabId) ?? []
+        const report = journal.length > 0 ? await this.replayJournal(response.sessionHandle, journal) : null
+        if (report) {
+            // Statements that no longer apply would fail again on the next replay
+            this.journals.set(
+                tabId,
+                journal.filter((statement) => report.restored.includes(statement))
+            )
+        }
+
         this.sessions.set(tabId, response.sessionHandle)
+        this.sessionMeta.set(tabId, { openedAt: Date.now(), lastHeartbeat: null })
         this.ensureHeartbeat()
+        if (report) {
+            this.recreatedListeners.forEach((listener) => listener(tabId, report))
+        }
         return response.sessionHandle
     }
 
+    /** Failed statements of the init script from the tab's latest session start. */
+    getInitFailures(tabId: string): SessionInitFailure[] {
+        return this.initFailures.get(tabId) ?? []
+    }
+
+    /**
+     * Run the connection's init script in a new session. A failing statement doesn't
+     * stop the rest or the session; failures are kept for the UI to report.
+     */
+    private async runInitScript(tabId: string, sessionHandle: string): Promise<void> {
+        const failures: SessionInitFailure[] = []
+        for (const statement of splitStatements(this.sessionDefaults.initScript)) {
+            if (!this.client.supports('configureSession')) {
+                failures.push({ statement, error: 'This gateway cannot configure sessions' })
+                continue
+            }
+            try {
+                await this.client.configureSession(sessionHandle, { statement })
+            } catch (error) {
+                failures.push({ statement, error: getErrorMessage(error) })
+            }
+        }
+        if (failures.length > 0) {
+            this.initFailures.set(tabId, failures)
+        } else {
+            this.initFailures.delete(tabId)
+        }
+    }
+
+    // ── Session journal ──
+
+    /** Note a successfully executed statement; only session-state changes are kept. */
+    recordStatement(tabId: string, statement: string): void {
+        if (!isSessionStateStatement(statement)) return
+        const journal = this.journals.get(tabId)
+        if (journal) {
+            journal.push(statement)
+        } else {
+            this.journals.set(tabId, [statement])
+        }
+    }
+
+    getJournal(tabId: string): string[] {
+        return [...(this.journals.get(tabId) ?? [])]
+    }
+
+    /** Run a configure-session statement (SET, RESET, USE ...) in the tab's session and journal it. */
+    async configureSession(tabId: string, statement: string): Promise<void> {
+        const sessionHandle = this.sessions.get(tabId)
+        if (!sessionHandle) {
+            throw new FlinkSqlGatewayError('No open session for this tab')
+        }
+        await this.client.configureSession(sessionHandle, { statement })
+        this.recordStatement(tabId, statement)
+    }
+
+    addSessionRecreatedListener(listener: SessionRecreatedListener): void {
+        this.recreatedListeners.push(listener)
+    }
+
+    removeSessionRecreatedListener(listener: SessionRecreatedListener): void {
+        this.recreatedListeners = this.recreatedListeners.filter((l) => l !== listener)
+    }
+
+    /** Replay the journal statement by statement; a failure doesn't stop the rest. */
+    private async replayJournal(sessionHandle: string, journal: string[]): Promise<SessionReplayReport> {
+        const report: SessionReplayReport = { restored: [], failed: [] }
+        for (const statement of journal) {
+            if (!this.client.supports('configureSession')) {
+                report.failed.push({ statement, error: 'This gateway cannot configure sessions' })
+                continue
+            }
+            try {
+                await this.client.configureSession(sessionHandle, { statement })
+                report.restored.push(statement)
+            } catch (error) {
+                report.failed.push({ statement, error: getErrorMessage(error) })
+            }
+        }
+        return report
+    }
+
     async closeSession(tabId: string): Promise<void> {
+        // A session still starting would otherwise be published after the tab is gone
+        await this.starting.get(tabId)?.catch(() => undefined)
         const sessionHandle = this.sessions.get(tabId)
+        this.journals.delete(tabId)
+        this.initFailures.delete(tabId)
         if (!sessionHandle) return
 
-        this.sessions.delete(tabId)
+        this.forgetSession(tabId)
         try {
             await this.client.closeSession(sessionHandle)
         } catch (error) {
@@ -84,20 +382,53 @@ class GatewayConnection {
         }
     }
 
+    /**
+     * Take back a session opened before a page reload, if the gateway still has it.
+     * Returns false when it has expired or been closed in the meantime.
+     */
+    async adoptSession(tabId: string, sessionHandle: string): Promise<boolean> {
+        await this.ensureNegotiated()
+        try {
+            await this.client.heartbeat(sessionHandle)
+        } catch (error) {
+            if (isSessionExpired(error)) return false
+            throw error
+        }
+        const now = Date.now()
+        this.sessions.set(tabId, sessionHandle)
+        this.sessionMeta.set(tabId, { openedAt: now, lastHeartbeat: { at: now, ok: true } })
+        this.ensureHeartbeat()
+        return true
+    }
+
     async recreateSession(tabId: string): Promise<string> {
+        this.forgetSession(tabId)
+        return this.startSession(tabId)
+    }
+
+    private forgetSession(tabId: string): void {
         this.sessions.delete(tabId)
-        const response = await this.client.openSession({
-            sessionName: `tab-${tabId}`,
-        })
-        this.sessions.set(tabId, response.sessionHandle)
-        this.ensureHeartbeat()
-        return response.sessionHandle
+        this.sessionMeta.delete(tabId)
+    }
+
+    /**
+     * Best-effort close of every session while the page unloads. Async requests
+     * don't survive unload, so these are fire-and-forget keepalive requests.
+     */
+    closeAllOnUnload(): void {
+        for (const sessionHandle of this.sessions.values()) {
+            this.client.closeSessionOnUnload(sessionHandle)
+        }
     }
 
     async disconnectAll(): Promise<void> {
+        await Promise.allSettled(this.starting.values())
         this.stopHeartbeat()
+        this.journals.clear()
+        this.initFailures.clear()
         const entries = Array.from(this.sessions.entries())
         this.sessions.clear()
+        this.sessionMeta.clear()
         for (const [, sessionHandle] of entries) {
             try {
                 await this.client.closeSession(sessionHandle)
@@ -124,7 +455,7 @@ class GatewayConnection {
     private async pingAllSessions(): Promise<void> {
         for (const [tabId, sessionHandle] of this.sessions) {
             try {
-                await this.client.heartbeat(sessionHandle)
+                await this.heartbeat(tabId, sessionHandle)
             } catch (error) {
                 if (isSessionExpired(error)) {
                     console.warn(`Session expired for tab ${tabId}, recreating...`)
@@ -140,6 +471,25 @@ class GatewayConnection {
         }
     }
 
+    /** Send a heartbeat and remember its outcome for the session browser. */
+    private async heartbeat(tabId: string, sessionHandle: string): Promise<void> {
+        try {
+            await this.client.heartbeat(sessionHandle)
+            this.recordHeartbeat(tabId, sessionHandle, { at: Date.now(), ok: true })
+        } catch (error) {
+            this.recordHeartbeat(tabId, sessionHandle, { at: Date.now(), ok: false, error: getErrorMessage(error) })
+            throw error
+        }
+    }
+
+    private recordHeartbeat(tabId: string, sessionHandle: string, result: HeartbeatResult): void {
+        const meta = this.sessionMeta.get(tabId)
+        // The session may have been replaced while the heartbeat was in flight
+        if (meta && this.sessions.get(tabId) === sessionHandle) {
+            meta.lastHeartbeat = result
+        }
+    }
+
     private stopHeartbeat(): void {
         if (this.heartbeatInterval) {
             clearInterval(this.heartbeatInterval)
@@ -156,15 +506,38 @@ class GatewayConnection {
             id: this.id,
             name: this.name,
             url: this.url,
+            auth: this.auth,
+            executionPresets: this.executionPresets,
+            sessionDefaults: this.sessionDefaults,
+            jobManagerUrl: this.jobManagerUrl,
+            retryPolicy: this.retryPolicy,
         }
     }
 
-    toJSON(): { id: string; name: string; url: string } {
-        return { id: this.id, name: this.name, url: this.url }
+    toJSON(): GatewayConnectionInfo {
+        return {
+            id: this.id,
+            name: this.name,
+            url: this.url,
+            auth: this.auth,
+            executionPresets: this.executionPresets,
+            sessionDefaults: this.sessionDefaults,
+            jobManagerUrl: this.jobManagerUrl,
+            retryPolicy: this.retryPolicy,
+        }
     }
 
-    static fromJSON(json: { id: string; name: string; url: string }): GatewayConnection {
-        return new GatewayConnection(json.name, json.url, json.id)
+    static fromJSON(json: GatewayConnectionInfo): GatewayConnection {
+        return new GatewayConnection(
+            json.name,
+            json.url,
+            json.id,
+            json.auth,
+            json.executionPresets,
+            json.sessionDefaults,
+            json.jobManagerUrl,
+            json.retryPolicy
+        )
     }
 }
 
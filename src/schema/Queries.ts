@@ -21,7 +21,15 @@ class Queries extends Tabs<QueryInfo> {
                                 queryInfo.id,
                                 queryInfo.isPinned,
                                 queryInfo.catalog,
-                                queryInfo.schema
+                                queryInfo.schema,
+                                queryInfo.rowLimit,
+                                queryInfo.deployments,
+                                queryInfo.executionPresets,
+                                queryInfo.runningOperation,
+                                queryInfo.launchedJobs,
+                                queryInfo.continueOnError,
+                                queryInfo.parameters,
+                                queryInfo.autoRefresh
                             )
                         )
                     } catch (e) {
@@ -38,7 +46,7 @@ class Queries extends Tabs<QueryInfo> {
         this.tabs.forEach((query) => this.saveTab(query))
     }
 
-    private saveTab(query: QueryInfo): void {
+    saveTab(query: QueryInfo): void {
         localStorage.setItem(`query_${query.id}`, JSON.stringify(query))
     }
 
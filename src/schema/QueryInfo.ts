@@ -1,5 +1,36 @@
 import TabInfo from '../controls/tabs/TabInfo'
+import { OperationCheckpoint, RowLimit } from '../api/FlinkQueryRunner'
 import QueryType from './QueryType'
+import ExecutionPreset from './ExecutionPreset'
+import QueryParameter from './QueryParameter'
+
+export interface ScriptDeployment {
+    clusterId: string
+    deployedAt: number
+    /** Set when a script URI was deployed instead of the tab's SQL. */
+    scriptUri?: string
+}
+
+/** A Flink job started by one of the tab's statements, so the jobs panel can link back to it. */
+export interface LaunchedJob {
+    jobId: string
+    connectionId: string
+    statement: string
+    launchedAt: number
+}
+
+/** Re-running the tab on a schedule, for bounded queries used as dashboards. */
+export interface AutoRefresh {
+    enabled: boolean
+    intervalMs: number
+    /** Mark cells whose value differs from the previous run. */
+    highlightChanges: boolean
+}
+
+/** A statement that was still running when the tab was last saved, kept so it can be reattached after a reload. */
+export interface RunningOperation extends OperationCheckpoint {
+    connectionId: string
+}
 
 class QueryInfo implements TabInfo {
     constructor(
@@ -9,7 +40,17 @@ class QueryInfo implements TabInfo {
         public id: string,
         public isPinned: boolean,
         public catalog?: string,
-        public schema?: string
+        public schema?: string,
+        public rowLimit?: RowLimit,
+        public deployments?: ScriptDeployment[],
+        public executionPresets?: ExecutionPreset[],
+        public runningOperation?: RunningOperation,
+        public launchedJobs?: LaunchedJob[],
+        /** Keep running a script's remaining statements after one fails. */
+        public continueOnError?: boolean,
+        /** Values for the `${name}` placeholders in the SQL, kept for placeholders since removed too. */
+        public parameters?: QueryParameter[],
+        public autoRefresh?: AutoRefresh
     ) {}
 }
 
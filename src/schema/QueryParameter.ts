@@ -0,0 +1,18 @@
+/**
+ * How a parameter value is written into the SQL where its placeholder stands on its own:
+ *   - string:     a quoted string literal
+ *   - number:     a numeric literal, checked to be one
+ *   - identifier: a backtick-quoted name; dots separate catalog, database and object
+ *   - raw:        inserted as typed
+ * Inside a quoted string or identifier the value is escaped for that quote instead.
+ */
+export type ParameterType = 'string' | 'number' | 'identifier' | 'raw'
+
+/** A value for a `${name}` placeholder in a tab's SQL. */
+interface QueryParameter {
+    name: string
+    type: ParameterType
+    value: string
+}
+
+export default QueryParameter
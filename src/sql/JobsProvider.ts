@@ -0,0 +1,67 @@
+import { StopJobMode, stopJobStatement } from '../api/FlinkQueryRunner'
+import executeAndCollect from '../api/executeAndCollect'
+import GatewayConnection from '../schema/GatewayConnection'
+import { isSessionExpired } from '../utils/Errors'
+
+export const JOBS_SESSION_ID = '__jobs_panel__'
+
+/** One row of SHOW JOBS. */
+export interface JobInfo {
+    jobId: string
+    jobName: string
+    status: string
+    startTime: string
+}
+
+/**
+ * Lists and stops the cluster's jobs through SHOW JOBS / STOP JOB, in a session of
+ * its own so it never disturbs the state of a tab's session.
+ */
+class JobsProvider {
+    private connection: GatewayConnection | null = null
+
+    setConnection(connection: GatewayConnection | null): void {
+        if (this.connection && this.connection !== connection) {
+            this.connection.closeSession(JOBS_SESSION_ID)
+        }
+        this.connection = connection
+    }
+
+    getConnection(): GatewayConnection | null {
+        return this.connection
+    }
+
+    async loadJobs(): Promise<JobInfo[]> {
+        const rows = await this.execute('SHOW JOBS')
+        return rows.map((row) => ({
+            jobId: String(row[0]),
+            jobName: String(row[1] ?? ''),
+            status: String(row[2] ?? ''),
+            startTime: String(row[3] ?? ''),
+        }))
+    }
+
+    /** Returns the savepoint path when stopping with a savepoint. */
+    async stopJob(jobId: string, mode: StopJobMode): Promise<string | null> {
+        const rows = await this.execute(stopJobStatement(jobId, mode))
+        return mode !== 'stop' && rows.length > 0 ? String(rows[0][0]) : null
+    }
+
+    private async execute(statement: string, retried = false): Promise<unknown[][]> {
+        if (!this.connection) {
+            throw new Error('No active connection')
+        }
+        const sessionHandle = await this.connection.openSession(JOBS_SESSION_ID)
+        try {
+            return await executeAndCollect(this.connection.client, sessionHandle, statement)
+        } catch (error) {
+            if (isSessionExpired(error) && !retried) {
+                await this.connection.recreateSession(JOBS_SESSION_ID)
+                return this.execute(statement, true)
+            }
+            throw error
+        }
+    }
+}
+
+export default JobsProvider
@@ -1,16 +1,16 @@
-import FlinkSqlGatewayClient from '../api/FlinkSqlGatewayClient'
-import { FetchResultsResponseBody } from '../api/FlinkSqlGatewayTypes'
+import executeAndCollect from '../api/executeAndCollect'
 import Catalog from '../schema/Catalog'
 import Column from '../schema/Column'
 import GatewayConnection from '../schema/GatewayConnection'
 import Schema from '../schema/Schema'
 import Table from '../schema/Table'
-import { getErrorMessage, isSessionExpired, parseNextToken } from '../utils/Errors'
+import { getErrorMessage, isSessionExpired } from '../utils/Errors'
 
-const CATALOG_SESSION_ID = '__catalog_viewer__'
+export const CATALOG_SESSION_ID = '__catalog_viewer__'
 
 class SchemaProvider {
     private connection: GatewayConnection | null = null
+    private catalogs: Map<string, Catalog> = new Map()
     private tables: Map<string, Table> = new Map()
 
     setConnection(connection: GatewayConnection | null): void {
@@ -18,9 +18,19 @@ class SchemaProvider {
             this.connection.closeSession(CATALOG_SESSION_ID)
         }
         this.connection = connection
+        this.catalogs.clear()
         this.tables.clear()
     }
 
+    getConnection(): GatewayConnection | null {
+        return this.connection
+    }
+
+    /** Catalogs, databases and tables loaded by the last loadCatalogs() call. */
+    getCachedCatalogs(): Map<string, Catalog> {
+        return this.catalogs
+    }
+
     async loadCatalogs(
         onSuccess: (catalogs: Map<string, Catalog>) => void,
         onError: (error: string) => void
@@ -34,19 +44,20 @@ class SchemaProvider {
             const sessionHandle = await this.ensureSession()
             const client = this.connection.client
 
-            const catalogRows = await this.executeAndCollect(client, sessionHandle, 'SHOW CATALOGS')
+            const catalogRows = await executeAndCollect(client, sessionHandle, 'SHOW CATALOGS')
             const catalogs = new Map<string, Catalog>()
 
             for (const row of catalogRows) {
                 const catalogName = String(row[0])
                 catalogs.set(catalogName, new Catalog(catalogName))
             }
+            this.catalogs = catalogs
 
             // For each catalog, load databases (schemas) and tables
             const catalogEntries = Array.from(catalogs.entries())
             for (const [catalogName, catalog] of catalogEntries) {
                 try {
-                    const dbRows = await this.executeAndCollect(
+                    const dbRows = await executeAndCollect(
                         client,
                         sessionHandle,
                         `SHOW DATABASES IN \`${catalogName}\``
@@ -56,7 +67,7 @@ class SchemaProvider {
                         const schema = catalog.getOrAdd(new Schema(schemaName))
 
                         try {
-                            const tableRows = await this.executeAndCollect(
+                            const tableRows = await executeAndCollect(
                                 client,
                                 sessionHandle,
                                 `SHOW TABLES IN \`${catalogName}\`.\`${schemaName}\``
@@ -118,7 +129,7 @@ class SchemaProvider {
             const sessionHandle = await this.ensureSession()
             const client = this.connection.client
 
-            const rows = await this.executeAndCollect(
+            const rows = await executeAndCollect(
                 client,
                 sessionHandle,
                 `DESCRIBE \`${catalogName}\`.\`${schemaName}\`.\`${tableName}\``
@@ -164,51 +175,6 @@ class SchemaProvider {
         }
         return this.connection.openSession(CATALOG_SESSION_ID)
     }
-
-    private async executeAndCollect(
-        client: FlinkSqlGatewayClient,
-        sessionHandle: string,
-        statement: string
-    ): Promise<unknown[][]> {
-        const execResponse = await client.executeStatement(sessionHandle, { statement })
-        const operationHandle = execResponse.operationHandle
-        const allRows: unknown[][] = []
-        let token = 0
-
-        while (true) {
-            const result: FetchResultsResponseBody = await client.fetchResults(
-                sessionHandle,
-                operationHandle,
-                token,
-                'JSON'
-            )
-
-            if (result.resultType === 'NOT_READY') {
-                await new Promise((resolve) => setTimeout(resolve, 100))
-                continue
-            }
-
-            if (result.resultType === 'PAYLOAD' && result.results?.data) {
-                for (const row of result.results.data) {
-                    allRows.push(row.fields)
-                }
-            }
-
-            if (result.resultType === 'EOS') {
-                break
-            }
-
-            token = parseNextToken(result.nextResultUri, token)
-        }
-
-        try {
-            await client.closeOperation(sessionHandle, operationHandle)
-        } catch {
-            // ignore close errors
-        }
-
-        return allRows
-    }
 }
 
 export default SchemaProvider
@@ -0,0 +1,307 @@
+import type * as monaco from 'monaco-editor'
+import { FlinkSqlGatewayError } from '../api/FlinkSqlGatewayClient'
+import Catalog from '../schema/Catalog'
+import ConnectionManager from '../schema/ConnectionManager'
+import Table from '../schema/Table'
+import analyzeStatement, { StatementContext, TableReference } from './analyzeStatement'
+import SchemaProvider from './SchemaProvider'
+
+const GATEWAY_COMPLETION_TIMEOUT_MS = 2_000
+
+type CandidateKind = 'column' | 'alias' | 'table' | 'database' | 'catalog' | 'gateway'
+
+interface Candidate {
+    name: string
+    kind: CandidateKind
+    detail?: string
+}
+
+// Lower sorts first: names resolved from the statement beat generic gateway suggestions
+const SORT_ORDER: Record<CandidateKind, string> = {
+    column: '0',
+    alias: '1',
+    table: '2',
+    database: '3',
+    catalog: '4',
+    gateway: '5',
+}
+
+interface TablePath {
+    catalog: string
+    database: string
+    table: Table
+}
+
+function sameName(a: string | undefined, b: string): boolean {
+    return a !== undefined && a.toLowerCase() === b.toLowerCase()
+}
+
+function quoteIdentifier(name: string): string {
+    return `\`${name.replace(/`/g, '``')}\``
+}
+
+/**
+ * Monaco completion provider for the query editor.
+ *
+ * Merges two sources:
+ *   - names already cached by SchemaProvider (catalogs, databases, tables, columns),
+ *     resolved against the statement under the cursor: tables after FROM / JOIN,
+ *     columns of aliased tables, and names qualified by catalog or database
+ *   - candidates from the gateway's complete-statement endpoint, when it accepts the request
+ */
+class SqlCompletionProvider {
+    private schemaProvider: SchemaProvider
+    private connectionManager: ConnectionManager
+    private getTabId: () => string
+
+    // Connections whose gateway has no complete-statement route; don't ask them again
+    private gatewayUnsupported = new Set<string>()
+
+    constructor(schemaProvider: SchemaProvider, connectionManager: ConnectionManager, getTabId: () => string) {
+        this.schemaProvider = schemaProvider
+        this.connectionManager = connectionManager
+        this.getTabId = getTabId
+    }
+
+    register(
+        monacoInstance: typeof monaco,
+        editor: monaco.editor.IStandaloneCodeEditor,
+        languageId: string
+    ): monaco.IDisposable {
+        return monacoInstance.languages.registerCompletionItemProvider(languageId, {
+            triggerCharacters: ['.', '`'],
+            provideCompletionItems: async (model, position, _context, token) => {
+                // Providers are registered per language, not per editor
+                if (model !== editor.getModel()) {
+                    return { suggestions: [] }
+                }
+
+                const offset = model.getOffsetAt(position)
+                const ctx = analyzeStatement(model.getValue(), offset)
+
+                const controller = new AbortController()
+                token.onCancellationRequested(() => controller.abort())
+
+                const [schemaCandidates, gatewayCandidates] = await Promise.all([
+                    this.collectSchemaCandidates(ctx),
+                    this.collectGatewayCandidates(ctx, controller),
+                ])
+
+                const start = model.getPositionAt(offset - ctx.replaceLength)
+                const range = {
+                    startLineNumber: start.lineNumber,
+                    startColumn: start.column,
+                    endLineNumber: position.lineNumber,
+                    endColumn: position.column,
+                }
+
+                const seen = new Set<string>()
+                const suggestions: monaco.languages.CompletionItem[] = []
+                for (const candidate of [...schemaCandidates, ...gatewayCandidates]) {
+                    const key = candidate.name.toLowerCase()
+                    if (seen.has(key)) continue
+                    seen.add(key)
+
+                    const insertText = this.toInsertText(candidate, ctx.quotedPrefix)
+                    suggestions.push({
+                        label: candidate.name,
+                        kind: this.toItemKind(monacoInstance, candidate.kind),
+                        detail: candidate.detail,
+                        insertText,
+                        filterText: insertText,
+                        sortText: `${SORT_ORDER[candidate.kind]}${key}`,
+                        range,
+                    })
+                }
+
+                return { suggestions }
+            },
+        })
+    }
+
+    // ── Cached schema names ──
+
+    private async collectSchemaCandidates(ctx: StatementContext): Promise<Candidate[]> {
+        const catalogs = this.schemaProvider.getCachedCatalogs()
+
+        if (ctx.qualifier.length > 0) {
+            return this.resolveQualified(ctx, catalogs)
+        }
+
+        const candidates: Candidate[] = []
+
+        if (ctx.expectsTable) {
+            for (const path of this.allTables(catalogs)) {
+                candidates.push({
+                    name: path.table.getName(),
+                    kind: 'table',
+                    detail: `${path.catalog}.${path.database}`,
+                })
+            }
+            catalogs.forEach((_, name) => candidates.push({ name, kind: 'catalog' }))
+            return candidates
+        }
+
+        for (const ref of ctx.tables) {
+            if (ref.alias) {
+                candidates.push({ name: ref.alias, kind: 'alias', detail: ref.parts.join('.') })
+            }
+            candidates.push(...(await this.columnsOf(ref.parts, catalogs, ref.alias)))
+        }
+        return candidates
+    }
+
+    private async resolveQualified(ctx: StatementContext, catalogs: Map<string, Catalog>): Promise<Candidate[]> {
+        const q = ctx.qualifier
+        const candidates: Candidate[] = []
+
+        if (q.length === 1) {
+            // Alias or bare table name used in this statement
+            const ref = ctx.tables.find(
+                (t: TableReference) =>
+                    sameName(t.alias, q[0]) || (!t.alias && sameName(t.parts[t.parts.length - 1], q[0]))
+            )
+            if (ref) {
+                return this.columnsOf(ref.parts, catalogs, q[0])
+            }
+
+            // catalog. → databases
+            catalogs.forEach((catalog, catalogName) => {
+                if (!sameName(catalogName, q[0])) return
+                catalog.getSchemas().forEach((_, database) => {
+                    candidates.push({ name: database, kind: 'database', detail: catalogName })
+                })
+            })
+        }
+
+        // [catalog.]database. → tables
+        if (q.length <= 2) {
+            for (const path of this.allTables(catalogs)) {
+                const matches =
+                    q.length === 1
+                        ? sameName(path.database, q[0])
+                        : sameName(path.catalog, q[0]) && sameName(path.database, q[1])
+                if (matches) {
+                    candidates.push({
+                        name: path.table.getName(),
+                        kind: 'table',
+                        detail: `${path.catalog}.${path.database}`,
+                    })
+                }
+            }
+        }
+
+        // [[catalog.]database.]table. → columns
+        candidates.push(...(await this.columnsOf(q, catalogs)))
+        return candidates
+    }
+
+    private async columnsOf(parts: string[], catalogs: Map<string, Catalog>, alias?: string): Promise<Candidate[]> {
+        const path = this.findTable(parts, catalogs)
+        if (!path) return []
+
+        const table = await this.loadColumns(path)
+        const detailPrefix = alias ?? path.table.getName()
+        return table.getColumns().map((column) => ({
+            name: column.getName(),
+            kind: 'column' as const,
+            detail: `${detailPrefix} · ${column.getType()}`,
+        }))
+    }
+
+    private findTable(parts: string[], catalogs: Map<string, Catalog>): TablePath | undefined {
+        if (parts.length === 0 || parts.length > 3) return undefined
+        const [tableName, database, catalog] = [...parts].reverse()
+        return this.allTables(catalogs).find(
+            (path) =>
+                sameName(path.table.getName(), tableName) &&
+                (database === undefined || sameName(path.database, database)) &&
+                (catalog === undefined || sameName(path.catalog, catalog))
+        )
+    }
+
+    private allTables(catalogs: Map<string, Catalog>): TablePath[] {
+        const paths: TablePath[] = []
+        catalogs.forEach((catalog, catalogName) => {
+            catalog.getSchemas().forEach((schema, database) => {
+                schema.getTables().forEach((table) => paths.push({ catalog: catalogName, database, table }))
+            })
+        })
+        return paths
+    }
+
+    private loadColumns(path: TablePath): Promise<Table> {
+        const cached = this.schemaProvider.getTableIfCached(path.catalog, path.database, path.table.getName())
+        if (cached || !this.schemaProvider.getConnection()) {
+            return Promise.resolve(cached ?? path.table)
+        }
+        return new Promise((resolve) => {
+            this.schemaProvider.loadTableColumns(path.catalog, path.database, path.table.getName(), resolve)
+        })
+    }
+
+    // ── Gateway completion ──
+
+    private async collectGatewayCandidates(ctx: StatementContext, controller: AbortController): Promise<Candidate[]> {
+        const connection = this.connectionManager.getActiveConnection()
+        if (!connection || !connection.supports('completeStatement') || this.gatewayUnsupported.has(connection.id)) {
+            return []
+        }
+
+        const sessionHandle = connection.getSessionHandle(this.getTabId())
+        if (!sessionHandle) return []
+
+        const timeoutId = setTimeout(() => controller.abort(), GATEWAY_COMPLETION_TIMEOUT_MS)
+        try {
+            const response = await connection.client.completeStatement(
+                sessionHandle,
+                { statement: ctx.statement, position: ctx.offset },
+                controller.signal
+            )
+            return (response?.candidates ?? []).map((name) => ({ name, kind: 'gateway' as const }))
+        } catch (error) {
+            // Only a gateway without the route (or refusing the POST) turns completion off for good;
+            // expired sessions, planner errors on half-typed SQL and proxy hiccups just skip this request
+            if (
+                error instanceof FlinkSqlGatewayError &&
+                (error.statusCode === 404 || error.statusCode === 405) &&
+                !error.sessionExpired
+            ) {
+                this.gatewayUnsupported.add(connection.id)
+            }
+            return []
+        } finally {
+            clearTimeout(timeoutId)
+        }
+    }
+
+    // ── Monaco mapping ──
+
+    private toInsertText(candidate: Candidate, quotedPrefix: boolean): string {
+        if (candidate.kind === 'gateway') return candidate.name
+        if (quotedPrefix || !/^[A-Za-z_][\w$]*$/.test(candidate.name)) {
+            return quoteIdentifier(candidate.name)
+        }
+        return candidate.name
+    }
+
+    private toItemKind(monacoInstance: typeof monaco, kind: CandidateKind): monaco.languages.CompletionItemKind {
+        const kinds = monacoInstance.languages.CompletionItemKind
+        switch (kind) {
+            case 'column':
+                return kinds.Field
+            case 'alias':
+                return kinds.Variable
+            case 'table':
+                return kinds.Struct
+            case 'database':
+                return kinds.Folder
+            case 'catalog':
+                return kinds.Module
+            case 'gateway':
+                return kinds.Keyword
+        }
+    }
+}
+
+export default SqlCompletionProvider
@@ -0,0 +1,275 @@
+/**
+ * Lightweight lexical analysis of the statement under the editor cursor,
+ * used by the completion provider to decide which names to offer.
+ *
+ * Not a parser: it tokenizes the text (respecting quotes and comments), finds
+ * the statement that contains the cursor, collects the tables referenced in
+ * FROM / JOIN clauses together with their aliases, and describes what is being
+ * typed at the cursor (a qualified prefix like `cat.db.ta`, and whether the
+ * position expects a table name).
+ */
+
+type TokenKind = 'word' | 'identifier' | 'string' | 'symbol'
+
+interface Token {
+    kind: TokenKind
+    text: string
+    /** Unquoted value for words and identifiers; raw text otherwise. */
+    value: string
+    start: number
+    end: number
+    /** False for a quoted token that runs to the end of the text without a closing quote. */
+    closed: boolean
+}
+
+export interface TableReference {
+    /** Name parts as written, e.g. ['cat', 'db', 'orders'] or ['orders']. */
+    parts: string[]
+    alias?: string
+}
+
+export interface StatementContext {
+    /** Text of the statement containing the cursor. */
+    statement: string
+    /** Cursor position relative to the start of `statement`. */
+    offset: number
+    /** Identifier parts before the word being typed, e.g. `cat.db.` → ['cat', 'db']. */
+    qualifier: string[]
+    /** The (unquoted) partial word at the cursor. */
+    prefix: string
+    /** Whether the partial word is a backtick-quoted identifier. */
+    quotedPrefix: boolean
+    /** Number of characters before the cursor that a completion should replace. */
+    replaceLength: number
+    /** Whether the cursor follows a keyword that takes a table name (FROM, JOIN, INTO, ...). */
+    expectsTable: boolean
+    /** Tables referenced in FROM / JOIN clauses of the statement. */
+    tables: TableReference[]
+}
+
+const TABLE_KEYWORDS = new Set(['FROM', 'JOIN', 'INTO', 'TABLE', 'DESCRIBE', 'DESC', 'UPDATE', 'LIKE'])
+
+// Words that can follow a table reference and therefore never act as an alias.
+const NON_ALIAS_KEYWORDS = new Set([
+    'WHERE',
+    'JOIN',
+    'INNER',
+    'LEFT',
+    'RIGHT',
+    'FULL',
+    'CROSS',
+    'OUTER',
+    'ON',
+    'USING',
+    'GROUP',
+    'ORDER',
+    'HAVING',
+    'LIMIT',
+    'UNION',
+    'INTERSECT',
+    'EXCEPT',
+    'WINDOW',
+    'FOR',
+    'MATCH_RECOGNIZE',
+    'LATERAL',
+    'VALUES',
+    'SELECT',
+    'SET',
+    'AS',
+    'TABLE',
+    'UNNEST',
+])
+
+function isWordChar(ch: string): boolean {
+    return /[\w$]/.test(ch)
+}
+
+function tokenize(sql: string): Token[] {
+    const tokens: Token[] = []
+    const len = sql.length
+    let i = 0
+
+    while (i < len) {
+        const ch = sql[i]
+
+        if (/\s/.test(ch)) {
+            i++
+            continue
+        }
+
+        // Single-line comment
+        if (ch === '-' && sql[i + 1] === '-') {
+            const eol = sql.indexOf('\n', i)
+            i = eol === -1 ? len : eol + 1
+            continue
+        }
+
+        // Block comment
+        if (ch === '/' && sql[i + 1] === '*') {
+            const close = sql.indexOf('*/', i + 2)
+            i = close === -1 ? len : close + 2
+            continue
+        }
+
+        // Quoted string or identifier; doubled quotes are escapes
+        if (ch === "'" || ch === '"' || ch === '`') {
+            let j = i + 1
+            let value = ''
+            let closed = false
+            while (j < len) {
+                if (sql[j] === ch) {
+                    if (sql[j + 1] === ch) {
+                        value += ch
+                        j += 2
+                        continue
+                    }
+                    j++
+                    closed = true
+                    break
+                }
+                value += sql[j]
+                j++
+            }
+            const kind: TokenKind = ch === "'" ? 'string' : 'identifier'
+            tokens.push({ kind, text: sql.substring(i, j), value, start: i, end: j, closed })
+            i = j
+            continue
+        }
+
+        if (isWordChar(ch)) {
+            let j = i + 1
+            while (j < len && isWordChar(sql[j])) j++
+            const text = sql.substring(i, j)
+            tokens.push({ kind: 'word', text, value: text, start: i, end: j, closed: true })
+            i = j
+            continue
+        }
+
+        tokens.push({ kind: 'symbol', text: ch, value: ch, start: i, end: i + 1, closed: true })
+        i++
+    }
+
+    return tokens
+}
+
+function isName(token: Token | undefined): boolean {
+    return !!token && (token.kind === 'word' || token.kind === 'identifier')
+}
+
+function isKeyword(token: Token | undefined, keywords: Set<string>): boolean {
+    return !!token && token.kind === 'word' && keywords.has(token.value.toUpperCase())
+}
+
+function collectTableReferences(tokens: Token[]): TableReference[] {
+    const tables: TableReference[] = []
+    let i = 0
+
+    while (i < tokens.length) {
+        const token = tokens[i]
+        const upper = token.kind === 'word' ? token.value.toUpperCase() : ''
+        if (upper !== 'FROM' && upper !== 'JOIN') {
+            i++
+            continue
+        }
+
+        // A FROM clause can list several comma-separated tables
+        i++
+        while (i < tokens.length && isName(tokens[i]) && !isKeyword(tokens[i], NON_ALIAS_KEYWORDS)) {
+            const parts = [tokens[i].value]
+            i++
+            while (tokens[i]?.text === '.' && isName(tokens[i + 1])) {
+                parts.push(tokens[i + 1].value)
+                i += 2
+            }
+
+            let alias: string | undefined
+            if (isKeyword(tokens[i], new Set(['AS'])) && isName(tokens[i + 1])) {
+                alias = tokens[i + 1].value
+                i += 2
+            } else if (isName(tokens[i]) && !isKeyword(tokens[i], NON_ALIAS_KEYWORDS)) {
+                alias = tokens[i].value
+                i++
+            }
+
+            tables.push({ parts, alias })
+
+            if (upper === 'FROM' && tokens[i]?.text === ',') {
+                i++
+                continue
+            }
+            break
+        }
+    }
+
+    return tables
+}
+
+export default function analyzeStatement(sql: string, cursorOffset: number): StatementContext {
+    const allTokens = tokenize(sql)
+
+    // Narrow down to the statement containing the cursor
+    let stmtStart = 0
+    let stmtEnd = sql.length
+    for (const token of allTokens) {
+        if (token.text !== ';') continue
+        if (token.end <= cursorOffset) {
+            stmtStart = token.end
+        } else {
+            stmtEnd = token.start
+            break
+        }
+    }
+    const tokens = allTokens.filter((t) => t.start >= stmtStart && t.end <= stmtEnd && t.text !== ';')
+
+    // Tokens that end at or before the cursor; a token straddling the cursor is the one being typed
+    const before = tokens.filter((t) => t.start < cursorOffset)
+    let prefix = ''
+    let quotedPrefix = false
+    let wordStart = cursorOffset
+    let replaceLength = 0
+    let idx = before.length - 1
+
+    const last = before[idx]
+    if (last && last.end >= cursorOffset && isName(last)) {
+        if (last.kind === 'identifier') {
+            // Partially typed `quoted name, or a complete one the cursor sits right after
+            quotedPrefix = true
+            prefix =
+                last.closed && last.end === cursorOffset
+                    ? last.value
+                    : last.value.substring(0, cursorOffset - last.start - 1)
+        } else {
+            prefix = sql.substring(last.start, cursorOffset)
+        }
+        wordStart = last.start
+        replaceLength = cursorOffset - last.start
+        idx--
+    } else if (last && last.kind === 'string' && (last.end > cursorOffset || !last.closed)) {
+        // Inside a string literal — nothing sensible to complete
+        idx = -1
+    }
+
+    // Walk back over `name.` pairs written without whitespace, e.g. `cat`.db.
+    const qualifier: string[] = []
+    while (
+        before[idx]?.text === '.' &&
+        before[idx].end === wordStart &&
+        isName(before[idx - 1]) &&
+        before[idx - 1].end === before[idx].start
+    ) {
+        qualifier.unshift(before[idx - 1].value)
+        wordStart = before[idx - 1].start
+        idx -= 2
+    }
+
+    return {
+        statement: sql.substring(stmtStart, stmtEnd),
+        offset: cursorOffset - stmtStart,
+        qualifier,
+        prefix,
+        quotedPrefix,
+        replaceLength,
+        expectsTable: isKeyword(before[idx], TABLE_KEYWORDS),
+        tables: collectTableReferences(tokens),
+    }
+}
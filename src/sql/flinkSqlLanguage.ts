@@ -0,0 +1,419 @@
+import type * as monaco from 'monaco-editor'
+
+export const FLINK_SQL_LANGUAGE_ID = 'flinksql'
+
+const KEYWORDS = [
+    'ADD',
+    'AFTER',
+    'ALL',
+    'ALTER',
+    'ANALYZE',
+    'AND',
+    'ANY',
+    'AS',
+    'ASC',
+    'BEGIN',
+    'BETWEEN',
+    'BY',
+    'CASCADE',
+    'CASE',
+    'CATALOG',
+    'CATALOGS',
+    'COLUMNS',
+    'COMMENT',
+    'COMPILE',
+    'COMPUTE',
+    'CONSTRAINT',
+    'CREATE',
+    'CROSS',
+    'CURRENT',
+    'DATABASE',
+    'DATABASES',
+    'DEFINE',
+    'DELETE',
+    'DESC',
+    'DESCRIBE',
+    'DISTINCT',
+    'DISTRIBUTED',
+    'DRAIN',
+    'DROP',
+    'ELSE',
+    'END',
+    'ENFORCED',
+    'ESCAPE',
+    'EXCEPT',
+    'EXECUTE',
+    'EXISTS',
+    'EXPLAIN',
+    'EXTENDED',
+    'FALSE',
+    'FETCH',
+    'FIRST',
+    'FOLLOWING',
+    'FOR',
+    'FROM',
+    'FULL',
+    'FUNCTION',
+    'FUNCTIONS',
+    'GROUP',
+    'GROUPING',
+    'HAVING',
+    'IF',
+    'IGNORE',
+    'IN',
+    'INNER',
+    'INSERT',
+    'INTERSECT',
+    'INTO',
+    'IS',
+    'JAR',
+    'JARS',
+    'JAVA',
+    'JOB',
+    'JOBS',
+    'JOIN',
+    'KEY',
+    'LANGUAGE',
+    'LAST',
+    'LATERAL',
+    'LEFT',
+    'LIKE',
+    'LIMIT',
+    'LOAD',
+    'MATCH',
+    'MATCH_RECOGNIZE',
+    'MEASURES',
+    'METADATA',
+    'MINUS',
+    'MODEL',
+    'MODELS',
+    'MODULE',
+    'MODULES',
+    'NATURAL',
+    'NEXT',
+    'NOT',
+    'NULL',
+    'NULLS',
+    'OF',
+    'OFFSET',
+    'ON',
+    'ONE',
+    'OR',
+    'ORDER',
+    'OUTER',
+    'OVER',
+    'OVERWRITE',
+    'PARTITION',
+    'PARTITIONED',
+    'PAST',
+    'PATTERN',
+    'PER',
+    'PLAN',
+    'PRECEDING',
+    'PRIMARY',
+    'PYTHON',
+    'RANGE',
+    'RECURSIVE',
+    'RENAME',
+    'REPLACE',
+    'RESET',
+    'RESTRICT',
+    'RETURNS',
+    'RIGHT',
+    'ROWS',
+    'SAVEPOINT',
+    'SCALA',
+    'SELECT',
+    'SET',
+    'SHOW',
+    'SKIP',
+    'STATEMENT',
+    'STOP',
+    'SUBSET',
+    'SYSTEM',
+    'SYSTEM_TIME',
+    'TABLE',
+    'TABLES',
+    'TEMPORARY',
+    'THEN',
+    'TO',
+    'TRUE',
+    'TRUNCATE',
+    'UNBOUNDED',
+    'UNION',
+    'UNLOAD',
+    'UPDATE',
+    'USE',
+    'USING',
+    'VALUES',
+    'VIEW',
+    'VIEWS',
+    'VIRTUAL',
+    'WATERMARK',
+    'WATERMARKS',
+    'WHEN',
+    'WHERE',
+    'WINDOW',
+    'WITH',
+    'WITHIN',
+    'WITHOUT',
+]
+
+const TYPE_KEYWORDS = [
+    'ARRAY',
+    'BIGINT',
+    'BINARY',
+    'BOOLEAN',
+    'BYTES',
+    'CHAR',
+    'CHARACTER',
+    'DATE',
+    'DAY',
+    'DEC',
+    'DECIMAL',
+    'DOUBLE',
+    'FLOAT',
+    'HOUR',
+    'INT',
+    'INTEGER',
+    'INTERVAL',
+    'LOCAL',
+    'MAP',
+    'MINUTE',
+    'MONTH',
+    'MULTISET',
+    'NUMERIC',
+    'PRECISION',
+    'RAW',
+    'REAL',
+    'ROW',
+    'SECOND',
+    'SMALLINT',
+    'STRING',
+    'TIME',
+    'TIMESTAMP',
+    'TIMESTAMP_LTZ',
+    'TINYINT',
+    'VARBINARY',
+    'VARCHAR',
+    'VARIANT',
+    'YEAR',
+    'ZONE',
+]
+
+const BUILTIN_FUNCTIONS = [
+    // Windowing table-valued functions and helpers
+    'TUMBLE',
+    'HOP',
+    'CUMULATE',
+    'SESSION',
+    'DESCRIPTOR',
+    'TUMBLE_START',
+    'TUMBLE_END',
+    'TUMBLE_ROWTIME',
+    'TUMBLE_PROCTIME',
+    'HOP_START',
+    'HOP_END',
+    'HOP_ROWTIME',
+    'HOP_PROCTIME',
+    'SESSION_START',
+    'SESSION_END',
+    'SESSION_ROWTIME',
+    'SESSION_PROCTIME',
+    'PROCTIME',
+    'CURRENT_WATERMARK',
+    'SOURCE_WATERMARK',
+    // MATCH_RECOGNIZE
+    'CLASSIFIER',
+    'MATCH_NUMBER',
+    'PREV',
+    'FINAL',
+    'RUNNING',
+    // Aggregates
+    'AVG',
+    'COLLECT',
+    'COUNT',
+    'FIRST_VALUE',
+    'LAST_VALUE',
+    'LISTAGG',
+    'MAX',
+    'MIN',
+    'STDDEV_POP',
+    'STDDEV_SAMP',
+    'SUM',
+    'VAR_POP',
+    'VAR_SAMP',
+    'ARRAY_AGG',
+    'JSON_ARRAYAGG',
+    'JSON_OBJECTAGG',
+    // Ranking
+    'ROW_NUMBER',
+    'RANK',
+    'DENSE_RANK',
+    'LAG',
+    'LEAD',
+    'NTILE',
+    // Scalar
+    'ABS',
+    'CAST',
+    'TRY_CAST',
+    'COALESCE',
+    'CONCAT',
+    'CONCAT_WS',
+    'CURRENT_DATE',
+    'CURRENT_TIME',
+    'CURRENT_TIMESTAMP',
+    'CURRENT_ROW_TIMESTAMP',
+    'DATE_FORMAT',
+    'EXTRACT',
+    'FLOOR',
+    'CEIL',
+    'FROM_UNIXTIME',
+    'IFNULL',
+    'JSON_EXISTS',
+    'JSON_OBJECT',
+    'JSON_QUERY',
+    'JSON_STRING',
+    'JSON_VALUE',
+    'LOCALTIMESTAMP',
+    'LOWER',
+    'NOW',
+    'NULLIF',
+    'REGEXP_EXTRACT',
+    'REGEXP_REPLACE',
+    'SPLIT_INDEX',
+    'SUBSTRING',
+    'TO_DATE',
+    'TO_TIMESTAMP',
+    'TO_TIMESTAMP_LTZ',
+    'TRIM',
+    'UNIX_TIMESTAMP',
+    'UNNEST',
+    'UPPER',
+]
+
+const languageConfiguration: monaco.languages.LanguageConfiguration = {
+    comments: {
+        lineComment: '--',
+        blockComment: ['/*', '*/'],
+    },
+    brackets: [
+        ['(', ')'],
+        ['[', ']'],
+    ],
+    autoClosingPairs: [
+        { open: '(', close: ')' },
+        { open: '[', close: ']' },
+        { open: "'", close: "'", notIn: ['string', 'comment'] },
+        { open: '`', close: '`', notIn: ['string', 'comment'] },
+        { open: '"', close: '"', notIn: ['string', 'comment'] },
+    ],
+    surroundingPairs: [
+        { open: '(', close: ')' },
+        { open: '[', close: ']' },
+        { open: "'", close: "'" },
+        { open: '`', close: '`' },
+        { open: '"', close: '"' },
+    ],
+}
+
+const monarchLanguage: monaco.languages.IMonarchLanguage = {
+    defaultToken: '',
+    tokenPostfix: '.flinksql',
+    ignoreCase: true,
+
+    brackets: [
+        { open: '(', close: ')', token: 'delimiter.parenthesis' },
+        { open: '[', close: ']', token: 'delimiter.square' },
+    ],
+
+    keywords: KEYWORDS,
+    typeKeywords: TYPE_KEYWORDS,
+    builtinFunctions: BUILTIN_FUNCTIONS,
+    operators: ['=', '>', '<', '<=', '>=', '<>', '!=', '+', '-', '*', '/', '%', '||'],
+
+    symbols: /[=><!~?:&|+\-*/^%]+/,
+
+    tokenizer: {
+        root: [
+            { include: '@comments' },
+            { include: '@whitespace' },
+            { include: '@numbers' },
+            { include: '@strings' },
+            { include: '@quotedIdentifiers' },
+            [/[;,.]/, 'delimiter'],
+            [/[()[\]]/, '@brackets'],
+            [
+                /[a-zA-Z_][\w$]*/,
+                {
+                    cases: {
+                        '@typeKeywords': 'type',
+                        '@builtinFunctions': 'predefined',
+                        '@keywords': 'keyword',
+                        '@default': 'identifier',
+                    },
+                },
+            ],
+            [
+                /@symbols/,
+                {
+                    cases: {
+                        '@operators': 'operator',
+                        '@default': '',
+                    },
+                },
+            ],
+        ],
+        whitespace: [[/\s+/, 'white']],
+        comments: [
+            [/--+.*/, 'comment'],
+            [/\/\*/, { token: 'comment.quote', next: '@comment' }],
+        ],
+        comment: [
+            [/[^*/]+/, 'comment'],
+            [/\*\//, { token: 'comment.quote', next: '@pop' }],
+            [/./, 'comment'],
+        ],
+        numbers: [
+            [/0[xX][0-9a-fA-F]*/, 'number'],
+            [/((\d+(\.\d*)?)|(\.\d+))([eE][-+]?\d+)?/, 'number'],
+        ],
+        strings: [
+            // Flink accepts an optional X prefix for binary literals
+            [/[xX]'/, { token: 'string', next: '@string' }],
+            [/'/, { token: 'string', next: '@string' }],
+        ],
+        string: [
+            [/[^']+/, 'string'],
+            [/''/, 'string'],
+            [/'/, { token: 'string', next: '@pop' }],
+        ],
+        quotedIdentifiers: [
+            [/`/, { token: 'identifier.quote', next: '@backtickIdentifier' }],
+            [/"/, { token: 'identifier.quote', next: '@doubleQuotedIdentifier' }],
+        ],
+        backtickIdentifier: [
+            [/[^`]+/, 'identifier'],
+            [/``/, 'identifier'],
+            [/`/, { token: 'identifier.quote', next: '@pop' }],
+        ],
+        doubleQuotedIdentifier: [
+            [/[^"]+/, 'identifier'],
+            [/""/, 'identifier'],
+            [/"/, { token: 'identifier.quote', next: '@pop' }],
+        ],
+    },
+}
+
+/**
+ * Register the Flink SQL language (Monarch tokenizer + bracket/comment rules) with Monaco.
+ * Safe to call repeatedly — registration happens once per Monaco instance.
+ */
+export function registerFlinkSqlLanguage(monacoInstance: typeof monaco): void {
+    if (monacoInstance.languages.getLanguages().some((lang) => lang.id === FLINK_SQL_LANGUAGE_ID)) {
+        return
+    }
+    monacoInstance.languages.register({ id: FLINK_SQL_LANGUAGE_ID, aliases: ['Flink SQL'] })
+    monacoInstance.languages.setLanguageConfiguration(FLINK_SQL_LANGUAGE_ID, languageConfiguration)
+    monacoInstance.languages.setMonarchTokensProvider(FLINK_SQL_LANGUAGE_ID, monarchLanguage)
+}
@@ -0,0 +1,37 @@
+// Statements whose effect lives in the session rather than in a catalog or a job
+const SESSION_STATE_PATTERNS = [
+    /^SET\s+\S/, // SET 'key' = 'value' (a bare SET only lists properties)
+    /^RESET\b/,
+    /^USE\s/, // USE CATALOG, USE <database>, USE MODULES
+    /^(ADD|REMOVE)\s+JAR\b/,
+    /^(LOAD|UNLOAD)\s+MODULE\b/,
+    /^(CREATE|DROP)\s+CATALOG\b/,
+    /^CREATE\s+(OR\s+REPLACE\s+)?TEMPORARY\s/,
+    /^DROP\s+TEMPORARY\s/,
+]
+
+/** Strip leading whitespace and comments so the first keyword can be matched. */
+export function stripLeadingComments(sql: string): string {
+    let text = sql.trimStart()
+    while (true) {
+        if (text.startsWith('--')) {
+            const eol = text.indexOf('\n')
+            text = eol === -1 ? '' : text.substring(eol + 1).trimStart()
+        } else if (text.startsWith('/*')) {
+            const close = text.indexOf('*/')
+            text = close === -1 ? '' : text.substring(close + 2).trimStart()
+        } else {
+            return text
+        }
+    }
+}
+
+/**
+ * Whether a statement changes session state (properties, current catalog and
+ * database, jars, modules, session catalogs or temporary objects), and so has to
+ * be replayed to bring a recreated session back to where it was.
+ */
+export default function isSessionStateStatement(sql: string): boolean {
+    const text = stripLeadingComments(sql).toUpperCase()
+    return SESSION_STATE_PATTERNS.some((pattern) => pattern.test(text))
+}
@@ -0,0 +1,231 @@
+/**
+ * Parses the text Flink returns for EXPLAIN into per-section operator trees.
+ *
+ * EXPLAIN prints `== Section ==` headers followed by an indented tree, one operator
+ * per line (`+-` marks the last child, `:-` the others):
+ *
+ *   GroupAggregate(groupBy=[a], select=[a, COUNT(*) AS cnt], changelogMode=[I,UB,UA]): rowcount = 1.0E8, ...
+ *   +- Exchange(distribution=[hash[a]], changelogMode=[I])
+ *
+ * JSON_EXECUTION_PLAN adds a JSON section with the stream graph instead of a tree.
+ */
+
+const EXPLAIN_DETAILS = ['CHANGELOG_MODE', 'ESTIMATED_COST', 'JSON_EXECUTION_PLAN']
+
+// Operators that keep state proportional to their keys or input, and so decide a pipeline's state size
+const STATEFUL_OPERATORS = new Set([
+    'GroupAggregate',
+    'GlobalGroupAggregate',
+    'IncrementalGroupAggregate',
+    'GroupTableAggregate',
+    'Join',
+    'IntervalJoin',
+    'TemporalJoin',
+    'Deduplicate',
+    'Rank',
+    'Limit',
+    'SortLimit',
+    'Sort',
+    'OverAggregate',
+    'GroupWindowAggregate',
+    'GlobalWindowAggregate',
+    'WindowAggregate',
+    'WindowJoin',
+    'WindowRank',
+    'WindowDeduplicate',
+    'ChangelogNormalize',
+    'Match',
+    'MultipleInput',
+])
+
+export interface PlanNode {
+    /** Operator name, e.g. GroupAggregate */
+    operator: string
+    /** Attributes in the order Flink printed them, e.g. ['groupBy', '[a]'] */
+    attributes: [string, string][]
+    /** Changelog kinds the operator emits, e.g. ['I', 'UB', 'UA'] */
+    changelogMode: string[] | null
+    upsertKeys: string | null
+    rowCount: number | null
+    cumulativeCost: string | null
+    stateful: boolean
+    children: PlanNode[]
+    /** The line as printed, without the tree markers */
+    text: string
+}
+
+export interface StreamGraphNode {
+    id: number
+    type: string
+    pact: string
+    contents: string
+    parallelism: number
+    predecessors: { id: number; shipStrategy: string }[]
+}
+
+export interface ExplainSection {
+    title: string
+    text: string
+    /** Root operators, for sections printed as a tree */
+    roots: PlanNode[]
+    /** Stream graph, for the JSON execution plan section */
+    streamGraph: StreamGraphNode[] | null
+}
+
+export interface ExplainPlan {
+    sections: ExplainSection[]
+}
+
+/** Wrap a statement in EXPLAIN with the details the plan view understands; EXPLAINs are kept as written. */
+export function explainStatement(statement: string): string {
+    const text = statement.trim().replace(/;$/, '')
+    if (/^EXPLAIN\b/i.test(text)) return text
+    return `EXPLAIN ${EXPLAIN_DETAILS.join(', ')} ${text}`
+}
+
+/** Whether a statement result looks like EXPLAIN output. */
+export function isExplainOutput(text: string): boolean {
+    return text.trimStart().startsWith('== Abstract Syntax Tree ==')
+}
+
+// ── Operators ──
+
+/** Split `a=[x, y], b=[[1]]` on top-level commas. */
+function splitTopLevel(text: string): string[] {
+    const parts: string[] = []
+    let depth = 0
+    let start = 0
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i]
+        if (c === '[' || c === '(' || c === '{') depth++
+        else if (c === ']' || c === ')' || c === '}') depth--
+        else if (c === ',' && depth === 0) {
+            parts.push(text.substring(start, i).trim())
+            start = i + 1
+        }
+    }
+    parts.push(text.substring(start).trim())
+    return parts.filter(Boolean)
+}
+
+/** Index of the parenthesis closing the one at `open`. */
+function closingParen(text: string, open: number): number {
+    let depth = 0
+    for (let i = open; i < text.length; i++) {
+        if (text[i] === '(') depth++
+        else if (text[i] === ')' && --depth === 0) return i
+    }
+    return text.length
+}
+
+function unbracket(value: string): string {
+    return value.startsWith('[') && value.endsWith(']') ? value.substring(1, value.length - 1) : value
+}
+
+function parseOperator(text: string): PlanNode {
+    const open = text.indexOf('(')
+    const operator = (open === -1 ? text.split(':')[0] : text.substring(0, open)).trim()
+    const close = open === -1 ? -1 : closingParen(text, open)
+
+    const attributes: [string, string][] = []
+    if (open !== -1) {
+        for (const part of splitTopLevel(text.substring(open + 1, close))) {
+            const eq = part.indexOf('=')
+            attributes.push(eq === -1 ? ['', part] : [part.substring(0, eq), part.substring(eq + 1)])
+        }
+    }
+    const attribute = (name: string) => attributes.find(([key]) => key === name)?.[1] ?? null
+
+    // ESTIMATED_COST appends ": rowcount = 1.0E8, cumulative cost = {...}"
+    const costText = close === -1 ? '' : text.substring(close + 1)
+    const rowCount = /rowcount = ([\d.E+-]+)/.exec(costText)
+    const cumulativeCost = /cumulative cost = (\{[^}]*\})/.exec(costText)
+
+    const changelogMode = attribute('changelogMode')
+    const upsertKeys = attribute('upsertKeys') ?? attribute('upsertKey')
+    return {
+        operator,
+        attributes,
+        changelogMode: changelogMode
+            ? unbracket(changelogMode)
+                  .split(',')
+                  .map((kind) => kind.trim())
+            : null,
+        upsertKeys: upsertKeys ? unbracket(upsertKeys) : null,
+        rowCount: rowCount ? Number(rowCount[1]) : null,
+        cumulativeCost: cumulativeCost ? cumulativeCost[1] : null,
+        stateful: STATEFUL_OPERATORS.has(operator) || unbracket(attribute('upsertMaterialize') ?? '') === 'true',
+        children: [],
+        text: text.trim(),
+    }
+}
+
+// Tree markers: each level is three characters (":  ", "|  " or spaces), the node itself "+- " or ":- "
+const TREE_LINE = /^((?:[ :|] {2})*)([:+]- )?(.*)$/
+
+function parseTree(text: string): PlanNode[] {
+    const roots: PlanNode[] = []
+    const stack: PlanNode[] = []
+    for (const line of text.split('\n')) {
+        if (!line.trim()) continue
+        const [, indent, marker, content] = TREE_LINE.exec(line)!
+        const depth = indent.length / 3 + (marker ? 1 : 0)
+        const node = parseOperator(content)
+        stack.length = Math.min(stack.length, depth)
+        const parent = stack[stack.length - 1]
+        if (parent && depth > 0) {
+            parent.children.push(node)
+        } else {
+            roots.push(node)
+        }
+        stack.push(node)
+    }
+    return roots
+}
+
+// ── Stream graph ──
+
+interface JsonPlan {
+    nodes?: {
+        id: number
+        type: string
+        pact: string
+        contents: string
+        parallelism: number
+        predecessors?: { id: number; ship_strategy: string }[]
+    }[]
+}
+
+function parseStreamGraph(text: string): StreamGraphNode[] | null {
+    try {
+        const plan = JSON.parse(text) as JsonPlan
+        return (plan.nodes ?? []).map((node) => ({
+            id: node.id,
+            type: node.type,
+            pact: node.pact,
+            contents: node.contents,
+            parallelism: node.parallelism,
+            predecessors: (node.predecessors ?? []).map((p) => ({ id: p.id, shipStrategy: p.ship_strategy })),
+        }))
+    } catch {
+        return null
+    }
+}
+
+export default function parseExplainPlan(text: string): ExplainPlan {
+    const sections: ExplainSection[] = []
+    const headers = [...text.matchAll(/^== (.+) ==$/gm)]
+    headers.forEach((header, i) => {
+        const start = header.index! + header[0].length
+        const end = i + 1 < headers.length ? headers[i + 1].index! : text.length
+        const body = text.substring(start, end).replace(/^\n+|\s+$/g, '')
+        const isJson = body.startsWith('{')
+        sections.push({
+            title: header[1],
+            text: body,
+            roots: isJson ? [] : parseTree(body),
+            streamGraph: isJson ? parseStreamGraph(body) : null,
+        })
+    })
+    return { sections }
+}
@@ -1,13 +1,28 @@
+import { stripLeadingComments } from './isSessionStateStatement'
+
+// Statement sets contain semicolons of their own and run as one job
+const BEGIN_STATEMENT_SET = /^BEGIN\s+STATEMENT\s+SET$/i
+const EXECUTE_STATEMENT_SET = /^EXECUTE\s+STATEMENT\s+SET\s+BEGIN\b/i
+
+function isBlockStart(statement: string): boolean {
+    const text = stripLeadingComments(statement).trim()
+    return BEGIN_STATEMENT_SET.test(text) || EXECUTE_STATEMENT_SET.test(text)
+}
+
 /**
  * Split a SQL text into individual statements on semicolons,
- * respecting single-quoted strings, double-quoted identifiers,
- * single-line comments (--), and block comments.
+ * respecting single-quoted strings, double-quoted and backtick-quoted
+ * identifiers, single-line comments (--), and block comments.
+ * A `BEGIN STATEMENT SET; ... END;` or `EXECUTE STATEMENT SET BEGIN ... END;`
+ * block is kept together as one statement.
  *
  * Returns non-empty trimmed statements (without trailing semicolons).
  */
 export default function splitStatements(sql: string): string[] {
     const statements: string[] = []
     let current = ''
+    // Inside a statement set: where the statement after the last semicolon starts
+    let blockSegmentStart: number | null = null
     let i = 0
     const len = sql.length
 
@@ -41,7 +56,7 @@ export default function splitStatements(sql: string): string[] {
         }
 
         // Quoted string or identifier: skip to matching close quote
-        if (ch === "'" || ch === '"') {
+        if (ch === "'" || ch === '"' || ch === '`') {
             const quote = ch
             let j = i + 1
             while (j < len) {
@@ -64,6 +79,22 @@ export default function splitStatements(sql: string): string[] {
 
         // Statement separator
         if (ch === ';') {
+            if (blockSegmentStart !== null) {
+                const segment = stripLeadingComments(current.substring(blockSegmentStart)).trim()
+                if (segment.toUpperCase() !== 'END') {
+                    current += ch
+                    blockSegmentStart = current.length
+                    i++
+                    continue
+                }
+                blockSegmentStart = null
+            } else if (isBlockStart(current)) {
+                current += ch
+                blockSegmentStart = current.length
+                i++
+                continue
+            }
+
             const trimmed = current.trim()
             if (trimmed) {
                 statements.push(trimmed)
@@ -85,3 +116,14 @@ export default function splitStatements(sql: string): string[] {
 
     return statements
 }
+
+/**
+ * The form a statement set is submitted in: the gateway parses one statement per
+ * request, so `BEGIN STATEMENT SET; ... END` becomes `EXECUTE STATEMENT SET BEGIN ... END`.
+ * Other statements are returned unchanged.
+ */
+export function toSubmittedStatement(statement: string): string {
+    const text = stripLeadingComments(statement)
+    const begin = /^BEGIN\s+STATEMENT\s+SET\s*;/i.exec(text)
+    return begin ? `EXECUTE STATEMENT SET BEGIN${text.substring(begin[0].length)}` : statement
+}
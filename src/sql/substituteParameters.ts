@@ -0,0 +1,127 @@
+import QueryParameter from '../schema/QueryParameter'
+
+const PLACEHOLDER = /\$\{([A-Za-z_][\w.]*)\}/y
+const NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/
+
+/** Where a placeholder stands: on its own, or inside a quoted string / identifier. */
+type PlaceholderContext = 'bare' | "'" | '"' | '`'
+
+/**
+ * Walk the SQL, replacing each `${name}` placeholder with what `replace` returns.
+ * Placeholders in comments are left alone.
+ */
+function rewritePlaceholders(sql: string, replace: (name: string, context: PlaceholderContext) => string): string {
+    let out = ''
+    let quote: PlaceholderContext = 'bare'
+    let i = 0
+    const len = sql.length
+
+    while (i < len) {
+        const ch = sql[i]
+
+        if (ch === '$') {
+            PLACEHOLDER.lastIndex = i
+            const match = PLACEHOLDER.exec(sql)
+            if (match) {
+                out += replace(match[1], quote)
+                i += match[0].length
+                continue
+            }
+        }
+
+        if (quote !== 'bare') {
+            if (ch === quote) {
+                // A doubled quote is an escaped one and keeps the literal open
+                if (sql[i + 1] === quote) {
+                    out += ch + ch
+                    i += 2
+                    continue
+                }
+                quote = 'bare'
+            }
+            out += ch
+            i++
+            continue
+        }
+
+        if (ch === '-' && sql[i + 1] === '-') {
+            const eol = sql.indexOf('\n', i)
+            const end = eol === -1 ? len : eol + 1
+            out += sql.substring(i, end)
+            i = end
+            continue
+        }
+
+        if (ch === '/' && sql[i + 1] === '*') {
+            const close = sql.indexOf('*/', i + 2)
+            const end = close === -1 ? len : close + 2
+            out += sql.substring(i, end)
+            i = end
+            continue
+        }
+
+        if (ch === "'" || ch === '"' || ch === '`') {
+            quote = ch
+        }
+        out += ch
+        i++
+    }
+
+    return out
+}
+
+/** Names of the `${name}` placeholders in the SQL, in order of first appearance. */
+export function findParameters(sql: string): string[] {
+    const names: string[] = []
+    rewritePlaceholders(sql, (name) => {
+        if (!names.includes(name)) names.push(name)
+        return ''
+    })
+    return names
+}
+
+/** The stored value for a placeholder, or the empty string parameter the form starts it as. */
+export function parameterFor(parameters: QueryParameter[], name: string): QueryParameter {
+    return parameters.find((p) => p.name === name) ?? { name, type: 'string', value: '' }
+}
+
+function formatBare(parameter: QueryParameter): string {
+    const { name, type, value } = parameter
+    switch (type) {
+        case 'string':
+            return `'${value.replace(/'/g, "''")}'`
+        case 'number':
+            if (!NUMBER.test(value.trim())) {
+                throw new Error(`Parameter \${${name}} is not a number: '${value}'`)
+            }
+            return value.trim()
+        case 'identifier':
+            if (!value.trim()) {
+                throw new Error(`Parameter \${${name}} needs a value`)
+            }
+            return value
+                .trim()
+                .split('.')
+                .map((part) => `\`${part.replace(/`/g, '``')}\``)
+                .join('.')
+        case 'raw':
+            return value
+    }
+}
+
+/**
+ * Replace `${name}` placeholders with their values. Standalone placeholders are
+ * written according to the parameter's type; inside a quoted string or identifier
+ * the value is escaped for the enclosing quote. Throws if a placeholder's value
+ * doesn't fit its type. Placeholders never given a value are empty strings, as
+ * the parameter form shows them.
+ */
+export default function substituteParameters(sql: string, parameters: QueryParameter[]): string {
+    return rewritePlaceholders(sql, (name, context) => {
+        const parameter = parameterFor(parameters, name)
+        if (context === 'bare') {
+            return formatBare(parameter)
+        }
+        return parameter.value.split(context).join(context + context)
+    })
+}
@@ -6,6 +6,21 @@ export default defineConfig({
     plugins: [react()],
     server: {
         proxy: {
+            '/v1': {
+                target: 'http://localhost:8083',
+                changeOrigin: true,
+                secure: false,
+            },
+            '/v2': {
+                target: 'http://localhost:8083',
+                changeOrigin: true,
+                secure: false,
+            },
+            '/v3': {
+                target: 'http://localhost:8083',
+                changeOrigin: true,
+                secure: false,
+            },
             '/v4': {
                 target: 'http://localhost:8083',
                 changeOrigin: true,